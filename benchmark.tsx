@@ -0,0 +1,103 @@
+// Frame-time harness: open /benchmark.html?count=500&layout=arc in the dev server.
+import React, { useEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom/client';
+import LagSlideshow, { LagSlideshowHandle } from './components/LagSlideshow';
+import { CarouselImage, LayoutName } from './types';
+import './index.css';
+
+interface PhaseResult {
+  phase: string;
+  frames: number;
+  mean: number;
+  p95: number;
+  max: number;
+  // Frames slower than 1.5x a 60Hz frame.
+  dropped: number;
+}
+
+const params = new URLSearchParams(window.location.search);
+const count = Number(params.get('count') ?? 200);
+const layout = (params.get('layout') ?? 'linear') as LayoutName;
+
+const items: CarouselImage[] = Array.from({ length: count }, (_, i) => ({
+  id: i,
+  url: `https://picsum.photos/id/${i % 100}/400/400`,
+  title: `Slide ${i + 1}`,
+  author: 'Benchmark',
+}));
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Records requestAnimationFrame deltas until the returned stop function is called.
+function recordFrames(phase: string): () => PhaseResult {
+  const deltas: number[] = [];
+  let last = performance.now();
+  let rafId = requestAnimationFrame(function tick(now) {
+    deltas.push(now - last);
+    last = now;
+    rafId = requestAnimationFrame(tick);
+  });
+  return () => {
+    cancelAnimationFrame(rafId);
+    const sorted = [...deltas].sort((a, b) => a - b);
+    return {
+      phase,
+      frames: deltas.length,
+      mean: deltas.reduce((sum, d) => sum + d, 0) / (deltas.length || 1),
+      p95: sorted[Math.floor(sorted.length * 0.95)] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+      dropped: deltas.filter(d => d > 25).length,
+    };
+  };
+}
+
+const Benchmark: React.FC = () => {
+  const slideshowRef = useRef<LagSlideshowHandle>(null);
+  const [results, setResults] = useState<PhaseResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      await wait(1000);
+      const phases: [string, () => Promise<void>][] = [
+        ['idle', () => wait(2000)],
+        ['next x5', async () => {
+          for (let i = 0; i < 5; i++) {
+            slideshowRef.current?.next();
+            await wait(1800);
+          }
+        }],
+        ['jump across track', async () => {
+          slideshowRef.current?.goTo(Math.floor(count / 2));
+          await wait(2000);
+          slideshowRef.current?.goTo(0);
+          await wait(2000);
+        }],
+      ];
+      for (const [phase, action] of phases) {
+        if (cancelled) return;
+        const stop = recordFrames(phase);
+        await action();
+        const result = stop();
+        console.table([result]);
+        setResults(prev => [...prev, result]);
+      }
+    };
+    run();
+    return () => { cancelled = true; };
+  }, []);
+
+  return (
+    <div className="w-full h-screen">
+      <LagSlideshow ref={slideshowRef} items={items} config={{ layout }} />
+      <pre className="fixed top-2 left-2 z-50 p-3 rounded bg-black/80 text-xs text-green-300">
+        {`${count} slides, ${layout} layout\n`}
+        {results.map(r =>
+          `${r.phase.padEnd(18)} frames ${r.frames}  mean ${r.mean.toFixed(1)}ms  p95 ${r.p95.toFixed(1)}ms  max ${r.max.toFixed(1)}ms  dropped ${r.dropped}`
+        ).join('\n')}
+      </pre>
+    </div>
+  );
+};
+
+ReactDOM.createRoot(document.getElementById('root')!).render(<Benchmark />);
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CarouselImage } from '../types';
+import { useActiveCrop } from '../hooks/useActiveCrop';
+import { CARD_SIZES, buildSourceSets, getFocalPoint, toObjectPosition } from '../lib/responsiveImages';
+
+interface CardImageProps {
+  image: CarouselImage;
+  onError?: () => void;
+}
+
+type LoadStatus = 'loading' | 'loaded' | 'error';
+
+// Card artwork with a skeleton or blurred placeholder while loading and a fallback when the URL fails.
+// Renditions are chosen by the browser from `sources` and `crops`; the focal point keeps the subject in frame.
+export const CardImage: React.FC<CardImageProps> = ({ image, onError }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [status, setStatus] = useState<LoadStatus>('loading');
+  const activeCrop = useActiveCrop(image.crops);
+  const isLoaded = status === 'loaded';
+
+  // Images served from cache can finish before React attaches the load listener.
+  useEffect(() => {
+    const img = imgRef.current;
+    if (img?.complete) setStatus(img.naturalWidth > 0 ? 'loaded' : 'error');
+  }, []);
+
+  useEffect(() => {
+    if (status === 'error') onError?.();
+  }, [status]);
+
+  if (status === 'error') {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-3 bg-gray-800 text-gray-400" role="img" aria-label={`${image.title} (image unavailable)`}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14M4 4l16 16M14 8h.01M6 20h12a2 2 0 002-2V6" /></svg>
+        <p className="text-sm">Image unavailable</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {!isLoaded && (
+        image.placeholder
+          ? <img src={image.placeholder} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full object-cover blur-lg scale-110"/>
+          : <div className="absolute inset-0 bg-white/10 motion-safe:animate-pulse" aria-hidden="true"/>
+      )}
+      <picture>
+        {image.crops?.flatMap((crop, cropIndex) =>
+          buildSourceSets(crop.sources).map(({ type, srcSet }) => (
+            <source key={`${cropIndex}-${type ?? 'default'}`} media={crop.media} type={type} srcSet={srcSet} sizes={CARD_SIZES}/>
+          ))
+        )}
+        {image.sources && buildSourceSets(image.sources).map(({ type, srcSet }) => (
+          <source key={type ?? 'default'} type={type} srcSet={srcSet} sizes={CARD_SIZES}/>
+        ))}
+        <img
+          ref={imgRef}
+          src={image.url}
+          alt={image.title}
+          decoding="async"
+          onLoad={() => setStatus('loaded')}
+          onError={() => setStatus('error')}
+          style={{ objectPosition: toObjectPosition(getFocalPoint(image, activeCrop)) }}
+          className={`relative w-full h-full object-cover transition-opacity duration-500 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}
+        />
+      </picture>
+    </>
+  );
+};
+
+export default CardImage;
@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+import { VideoSlide } from '../types';
+
+interface CardVideoProps {
+  slide: VideoSlide;
+  // Whether the card sits at the center of the track right now.
+  isCentered: boolean;
+  // False under reduced motion, which leaves the poster up instead.
+  autoPlay: boolean;
+  onError?: () => void;
+}
+
+// Muted inline video that plays while its card is centered and pauses as soon as it moves off.
+export const CardVideo: React.FC<CardVideoProps> = ({ slide, isCentered, autoPlay, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isCentered && autoPlay) {
+      // Browsers may still refuse; the poster stays up in that case.
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [isCentered, autoPlay]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={slide.url}
+      poster={slide.poster}
+      muted
+      playsInline
+      loop={slide.loop ?? true}
+      preload="metadata"
+      aria-label={slide.title}
+      onError={onError}
+      className="w-full h-full object-cover bg-black"
+    />
+  );
+};
+
+export default CardVideo;
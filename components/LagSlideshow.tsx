@@ -0,0 +1,732 @@
+import React, { useReducer, useRef, useLayoutEffect, useState, useEffect, useImperativeHandle, useId, useMemo } from 'react';
+import { gsap } from 'gsap';
+import { AnimationConfig, CarouselAction, Slide } from '../types';
+import { defaultConfig } from '../constants';
+import { CarouselAnimation } from '../lib/CarouselAnimation';
+import { carouselReducer, initCarouselState } from '../lib/carouselReducer';
+import { VelocityTracker, isTap, projectMomentum, resolveSwipeSteps } from '../lib/gestures';
+import { getKeyboardAction } from '../lib/keyboard';
+import { getTrackAxis } from '../lib/geometry';
+import { resolveMotionProfile } from '../lib/motion';
+import { getMountedIndices, getPagerDots } from '../lib/virtualization';
+import { wrapIndex } from '../lib/utils';
+import { imageLoader } from '../services/imageLoader';
+import { estimateCardWidth } from '../lib/responsiveImages';
+import { getSlideImageUrl, getSlideLabel } from '../lib/slides';
+import { HistorySyncOptions, defaultHistorySyncOptions, readSlideIndex } from '../lib/deepLink';
+import { CarouselEvents, Emitter, EventListener } from '../lib/events';
+import { CarouselPlugin, CarouselPluginContext } from '../lib/plugins';
+import { SlideCard } from './SlideCard';
+import { Lightbox } from './Lightbox';
+import { ThumbnailStrip } from './ThumbnailStrip';
+import { useAutoplay } from '../hooks/useAutoplay';
+import { useHistorySync } from '../hooks/useHistorySync';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+
+// Longest the background crossfade waits for its image before fading anyway.
+const BACKGROUND_HOLD_TIMEOUT_MS = 4000;
+
+// Above this many slides the dots collapse into a sliding pager with a counter.
+const MAX_DOTS = 9;
+
+export interface LagSlideshowHandle {
+  next: () => void;
+  prev: () => void;
+  goTo: (index: number) => void;
+  getIndex: () => number;
+  // Subscribes to a lifecycle event; returns the unsubscribe.
+  on: <K extends keyof CarouselEvents>(type: K, listener: EventListener<CarouselEvents[K]>) => () => void;
+}
+
+export interface SlideRenderContext {
+  index: number;
+  // The selected slide.
+  isCurrent: boolean;
+  // Nearest the center of the track right now, which can differ from the selection mid-transition.
+  isCentered: boolean;
+}
+
+export interface LagSlideshowProps<T extends Slide = Slide> {
+  items: T[];
+  config?: Partial<AnimationConfig>;
+  // Controlled mode: when set, the slideshow only moves when this prop changes.
+  index?: number;
+  // Start index for uncontrolled mode.
+  defaultIndex?: number;
+  // Mirror the current slide into the URL and follow back/forward; `true` uses the defaults.
+  history?: boolean | HistorySyncOptions;
+  onChange?: (index: number, item: T) => void;
+  // Called once per slide whose image or video fails, whether on a card or while preloading.
+  onImageError?: (item: T, index: number) => void;
+  // Replaces the default card content for every slide.
+  renderCard?: (slide: T, context: SlideRenderContext) => React.ReactNode;
+  // Replaces the title, author, caption and call to action above the track.
+  renderHeader?: (slide: T) => React.ReactNode;
+  // Tapping the centered card opens it fullscreen with zoom and pan.
+  lightbox?: boolean;
+  // Filmstrip of every slide under the controls.
+  thumbnails?: boolean;
+  plugins?: CarouselPlugin[];
+  className?: string;
+  // Accessible name of the carousel region.
+  label?: string;
+  ref?: React.Ref<LagSlideshowHandle>;
+}
+
+export function LagSlideshow<T extends Slide = Slide>({
+  items,
+  config,
+  index,
+  defaultIndex = 0,
+  history,
+  onChange,
+  onImageError,
+  renderCard,
+  renderHeader,
+  lightbox = false,
+  thumbnails = false,
+  plugins = [],
+  className = '',
+  label = 'Image carousel',
+  ref,
+}: LagSlideshowProps<T>) {
+  const isControlled = index !== undefined;
+  const historyOptions = history ? { ...defaultHistorySyncOptions, ...(history === true ? {} : history) } : null;
+  // The URL is only readable in the browser, so renders start on `defaultIndex` and a deep link is adopted on mount.
+  const [state, dispatch] = useReducer(carouselReducer, undefined, () => initCarouselState({
+    count: items.length,
+    index: isControlled ? index : defaultIndex,
+  }));
+  const [displayedSlide, setDisplayedSlide] = useState<T | undefined>(items[state.currentIndex]);
+  const [visibleBg, setVisibleBg] = useState(0);
+
+  const currentIndexRef = useRef(state.currentIndex);
+  currentIndexRef.current = state.currentIndex;
+  const lastReportedIndexRef = useRef(state.currentIndex);
+
+  const [events] = useState(() => new Emitter<CarouselEvents>());
+  const animationController = useRef<CarouselAnimation | null>(null);
+  const masterTimelineRef = useRef<gsap.core.Timeline | null>(null);
+  const rootRef = useRef<HTMLElement>(null);
+  const carouselRef = useRef<HTMLDivElement>(null);
+  const gestureWrapperRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const bgRef1 = useRef<HTMLDivElement>(null);
+  const bgRef2 = useRef<HTMLDivElement>(null);
+  const dragInfo = useRef({
+    isDragging: false,
+    startX: 0,
+    startY: 0,
+    startTime: 0,
+    // Pointer position and track offset along the track, in the controller's logical units.
+    startPointer: 0,
+    startTrackOffset: 0,
+    pointerId: null as number | null,
+    // The press stopped a running transition, so it can't also count as a tap.
+    interrupted: false,
+  });
+  const velocityTracker = useRef(new VelocityTracker());
+  // Release velocity of the drag that started the current transition, consumed by goTo.
+  const throwVelocityRef = useRef(0);
+  const resolvedConfig = { ...defaultConfig, ...config };
+  const axis = getTrackAxis(resolvedConfig.orientation, resolvedConfig.direction);
+  const isVertical = axis.main === 'y';
+  // Pointer position along the track, growing towards later slides like the controller's offsets.
+  const pointerOffset = (e: React.PointerEvent) => axis.sign * (isVertical ? e.clientY : e.clientX);
+  const isRtl = resolvedConfig.direction === 'rtl';
+  const progressRef = useRef<HTMLSpanElement>(null);
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const motion = useMemo(
+    () => resolveMotionProfile(resolvedConfig, prefersReducedMotion),
+    [resolvedConfig.motion, resolvedConfig.duration, resolvedConfig.ease, prefersReducedMotion]
+  );
+  const tabsRef = useRef<HTMLDivElement>(null);
+  // Set when keyboard navigation happened inside the tablist, so focus follows the selected tab.
+  const focusTabOnChangeRef = useRef(false);
+  const [hasFocus, setHasFocus] = useState(false);
+  const [userPaused, setUserPaused] = useState(false);
+  const [isLightboxOpen, setLightboxOpen] = useState(false);
+  // Slide nearest the center while the track moves, so a virtualized window follows drags and long jumps
+  // and videos play only while centered.
+  const [centerIndex, setCenterIndex] = useState(state.currentIndex);
+  const isVirtualized = items.length > resolvedConfig.virtualizeThreshold;
+  const mountedIndices = isVirtualized
+    ? getMountedIndices([centerIndex, state.currentIndex], resolvedConfig.virtualWindow, items.length, resolvedConfig.loop)
+    : items.map((_, i) => i);
+  const mountedKey = mountedIndices.join(',');
+  const reportedErrorsRef = useRef(new Set<number>());
+  const reportImageError = (index: number) => {
+    const item = items[index];
+    if (!item || reportedErrorsRef.current.has(item.id)) return;
+    reportedErrorsRef.current.add(item.id);
+    onImageError?.(item, index);
+  };
+  // The rendition a card at the current viewport size shows; the blurred background reuses it so it is already cached.
+  const displayUrl = (item: T) => getSlideImageUrl(item, estimateCardWidth());
+  // Header elements that slide and fade between slides, whether default or from `renderHeader`.
+  const headerItems = () => Array.from(headerRef.current?.querySelectorAll<HTMLElement>('[data-header-item]') ?? []);
+  const getCard = (i: number) => carouselRef.current?.querySelector<HTMLElement>(`.carousel-card[data-index="${i}"]`) ?? null;
+  const isOverCurrentCard = (x: number, y: number) => {
+    const rect = getCard(state.currentIndex)?.querySelector('.card-transformer')?.getBoundingClientRect();
+    return !!rect && x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+  };
+  // Arrow icons point along the track: down the page when vertical, mirrored when right-to-left.
+  const prevArrowClass = isVertical ? 'rotate-90 motion-safe:group-hover:-translate-y-1'
+    : isRtl ? '-scale-x-100 motion-safe:group-hover:translate-x-1' : 'motion-safe:group-hover:-translate-x-1';
+  const nextArrowClass = isVertical ? 'rotate-90 motion-safe:group-hover:translate-y-1'
+    : isRtl ? '-scale-x-100 motion-safe:group-hover:-translate-x-1' : 'motion-safe:group-hover:translate-x-1';
+  const baseId = useId();
+  const slideId = (i: number) => `${baseId}-slide-${i}`;
+
+  // In controlled mode navigation only reports the index the reducer would move to;
+  // the parent feeds it back through the `index` prop.
+  // Whether the last index change came from autoplay, an interrupt or removed items rather than the user.
+  const automaticChangeRef = useRef(false);
+  // Controlled mode: the last action reported through onChange.
+  const pendingActionRef = useRef<CarouselAction | null>(null);
+  const navigate = (action: CarouselAction, automatic = false) => {
+    automaticChangeRef.current = automatic;
+    if (!isControlled) {
+      dispatch(action);
+      return;
+    }
+    const target = carouselReducer(state, action).currentIndex;
+    // Remembered so the parent's answer replays the action, keeping a flick's direction and step count.
+    pendingActionRef.current = action;
+    if (target !== index) onChange?.(target, items[target]);
+  };
+  const navigateRef = useRef(navigate);
+  navigateRef.current = navigate;
+
+  const autoplay = useAutoplay({
+    enabled: resolvedConfig.autoplay,
+    interval: resolvedConfig.autoplayInterval,
+    pauseOnHover: resolvedConfig.pauseOnHover,
+    pauseOnFocus: resolvedConfig.pauseOnFocus,
+    status: state.status,
+    currentIndex: state.currentIndex,
+    progressRef,
+    onAdvance: () => navigate({ type: resolvedConfig.autoplayDirection === 'forward' ? 'NEXT' : 'PREV' }, true),
+  });
+
+  useHistorySync({
+    options: historyOptions,
+    slides: items,
+    currentIndex: state.currentIndex,
+    onNavigate: (target) => navigate({ type: 'GOTO', payload: target }),
+    isAutomaticChange: () => automaticChangeRef.current,
+  });
+
+  const toggleUserPause = () => {
+    if (userPaused) autoplay.resume('user');
+    else autoplay.pause('user');
+    setUserPaused(!userPaused);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+    const action = getKeyboardAction(e.key, state.currentIndex, state.count, axis);
+    if (!action) return;
+    e.preventDefault();
+    focusTabOnChangeRef.current = !!tabsRef.current?.contains(target);
+    navigate(action);
+  };
+
+  useImperativeHandle(ref, () => ({
+    next: () => navigate({ type: 'NEXT' }),
+    prev: () => navigate({ type: 'PREV' }),
+    goTo: (i: number) => navigate({ type: 'GOTO', payload: i }),
+    getIndex: () => currentIndexRef.current,
+    on: events.on,
+  }));
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+
+    const interrupted = state.status === 'animating';
+    let startIndex = state.currentIndex;
+    if (interrupted) {
+        masterTimelineRef.current?.kill();
+
+        // Don't call destroy() here because it removes the GSAP ticker needed for Arc layout.
+        // Instead, kill only the movement tweens.
+        const closestIndex = animationController.current!.interrupt();
+        automaticChangeRef.current = true;
+        dispatch({ type: 'INTERRUPT', payload: closestIndex });
+        setDisplayedSlide(items[closestIndex]);
+        if (isControlled && closestIndex !== index) onChange?.(closestIndex, items[closestIndex]);
+        startIndex = closestIndex;
+    }
+    events.emit('dragStart', { index: startIndex });
+
+    dragInfo.current = {
+      isDragging: true,
+      startX: e.clientX,
+      startY: e.clientY,
+      startTime: e.timeStamp,
+      startPointer: pointerOffset(e),
+      startTrackOffset: animationController.current?.getOffset() ?? 0,
+      pointerId: e.pointerId,
+      interrupted,
+    };
+    velocityTracker.current.reset(pointerOffset(e), e.timeStamp);
+    autoplay.pause('drag');
+
+    if (gestureWrapperRef.current) {
+      gestureWrapperRef.current.style.cursor = 'grabbing';
+      gestureWrapperRef.current.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragInfo.current.isDragging || e.pointerId !== dragInfo.current.pointerId) return;
+    velocityTracker.current.add(pointerOffset(e), e.timeStamp);
+    animationController.current?.drag(dragInfo.current.startTrackOffset, pointerOffset(e) - dragInfo.current.startPointer);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragInfo.current.isDragging || e.pointerId !== dragInfo.current.pointerId) return;
+
+    if (gestureWrapperRef.current) {
+        gestureWrapperRef.current.style.cursor = 'grab';
+        gestureWrapperRef.current.releasePointerCapture(e.pointerId);
+    }
+
+    dragInfo.current.isDragging = false;
+    autoplay.resume('drag');
+    const controller = animationController.current;
+    if (!controller) return;
+
+    const deltaX = e.clientX - dragInfo.current.startX;
+    const deltaY = e.clientY - dragInfo.current.startY;
+    if (lightbox && e.type === 'pointerup' && !dragInfo.current.interrupted
+        && isTap(deltaX, deltaY, e.timeStamp - dragInfo.current.startTime) && isOverCurrentCard(e.clientX, e.clientY)) {
+        controller.goTo(state.currentIndex, state.currentIndex);
+        setLightboxOpen(true);
+        return;
+    }
+    // Project the release velocity forward and land on the card nearest where the throw would stop.
+    const velocity = velocityTracker.current.getVelocity(e.timeStamp);
+    const projectedOffset = controller.getOffset() + projectMomentum(velocity, resolvedConfig.momentum);
+    const card = carouselRef.current?.querySelector<HTMLElement>('.carousel-card');
+    const steps = resolveSwipeSteps({
+        startIndex: controller.getClosestVirtualIndex(dragInfo.current.startTrackOffset),
+        projectedIndex: controller.getClosestVirtualIndex(projectedOffset),
+        delta: pointerOffset(e) - dragInfo.current.startPointer,
+        cardSize: (isVertical ? card?.offsetHeight : card?.offsetWidth) ?? 300,
+        currentIndex: state.currentIndex,
+        count: state.count,
+        loop: resolvedConfig.loop,
+    });
+
+    // Settle back first; in controlled mode the parent decides whether the swipe goes through.
+    if (isControlled || steps === 0) {
+        controller.goTo(state.currentIndex, state.currentIndex);
+    }
+    if (steps !== 0) {
+        throwVelocityRef.current = Math.sign(steps) === -Math.sign(velocity) ? velocity : 0;
+        navigate({ type: 'STEP', payload: steps });
+    }
+  };
+
+  // Declared before the transition effect so a long jump pushes the window of cards it just mounted.
+  useLayoutEffect(() => {
+    animationController.current?.refresh();
+  }, [mountedKey]);
+
+  useLayoutEffect(() => {
+    if (state.status === 'animating' && animationController.current) {
+      masterTimelineRef.current?.kill();
+
+      // The transition ends once both the header/background timeline and the track tween have finished.
+      let pending = 2;
+      const settle = () => {
+        if (--pending > 0) return;
+        dispatch({ type: 'ANIMATION_END' });
+        events.emit('afterChange', { index: state.currentIndex });
+        setVisibleBg(prev => 1 - prev);
+        setDisplayedSlide(items[state.currentIndex]);
+      };
+      const masterTimeline = gsap.timeline({ onComplete: settle });
+      masterTimelineRef.current = masterTimeline;
+
+      masterTimeline.to(headerItems(), {
+        y: motion.textSlide ? '-100%' : '0%', opacity: 0, duration: motion.textOutDuration, ease: 'power3.in', stagger: 0.05,
+        overwrite: 'auto',
+      }, 0);
+
+      const bgRefs = [bgRef1, bgRef2];
+      const newBgRef = bgRefs[1 - visibleBg].current;
+      const oldBgRef = bgRefs[visibleBg].current;
+      const newSlide = items[state.currentIndex];
+
+      let backgroundStart = motion.backgroundDelay;
+
+      if (newBgRef && newSlide) {
+          const newUrl = displayUrl(newSlide);
+          const showBackground = () => {
+              newBgRef.style.backgroundImage = !newUrl || imageLoader.getStatus(newUrl) === 'error' ? 'none' : `url(${newUrl})`;
+          };
+          if (!newUrl || imageLoader.getStatus(newUrl) === 'loaded') {
+              showBackground();
+          } else {
+              // Hold the crossfade until the new background has decoded, once the header text is out of the way.
+              backgroundStart = Math.max(backgroundStart, motion.textOutDuration + 0.05);
+              masterTimeline.addPause(backgroundStart, () => {
+                  imageLoader.whenSettled(newUrl, BACKGROUND_HOLD_TIMEOUT_MS).then(() => {
+                      if (masterTimelineRef.current !== masterTimeline) return;
+                      showBackground();
+                      masterTimeline.resume();
+                  });
+              });
+          }
+          masterTimeline.to(newBgRef, { opacity: 1, duration: motion.backgroundDuration, ease: 'power2.inOut', overwrite: 'auto' }, backgroundStart);
+      }
+      if (oldBgRef) {
+          masterTimeline.to(oldBgRef, { opacity: 0, duration: motion.backgroundDuration, ease: 'power2.inOut', overwrite: 'auto' }, backgroundStart);
+      }
+
+      events.emit('beforeChange', { from: state.fromIndex, to: state.currentIndex });
+      animationController.current.goTo(state.fromIndex, state.currentIndex, settle, {
+        steps: state.steps,
+        velocity: throwVelocityRef.current,
+      });
+      throwVelocityRef.current = 0;
+    }
+  }, [state.status, state.currentIndex, state.fromIndex, visibleBg]);
+
+  useEffect(() => {
+    if (state.status !== 'animating') {
+      gsap.fromTo(headerItems(),
+        { y: motion.textSlide ? '100%' : '0%', opacity: 0 },
+        {
+          y: '0%', opacity: 1, duration: motion.textInDuration, ease: 'power3.out', stagger: 0.1,
+          overwrite: 'auto',
+        }
+      );
+    }
+  }, [displayedSlide, state.status]);
+
+  // Every index change of the FSM is an event; uncontrolled mode also reports it through onChange.
+  useEffect(() => {
+    if (state.currentIndex === lastReportedIndexRef.current) return;
+    const previousIndex = lastReportedIndexRef.current;
+    lastReportedIndexRef.current = state.currentIndex;
+    events.emit('change', { index: state.currentIndex, previousIndex });
+    if (!isControlled) onChange?.(state.currentIndex, items[state.currentIndex]);
+  }, [state.currentIndex]);
+
+  // Controlled mode: follow the `index` prop whenever the FSM is idle and out of sync.
+  useEffect(() => {
+    if (!isControlled || state.status !== 'idle' || index === state.currentIndex) return;
+    const pending = pendingActionRef.current;
+    pendingActionRef.current = null;
+    // Replay it only if it still leads to the index the parent settled on.
+    const replay = pending && carouselReducer(state, pending).currentIndex === index;
+    dispatch(replay ? pending : { type: 'GOTO', payload: index });
+  }, [index, state.status, state.currentIndex]);
+
+  useEffect(() => {
+    if (isLightboxOpen) autoplay.pause('lightbox');
+    else autoplay.resume('lightbox');
+  }, [isLightboxOpen]);
+
+  useEffect(() => {
+    animationController.current?.setMotionProfile(motion);
+  }, [motion]);
+
+  // Warm up the neighbours of the current slide so the next move never lands on a blank card.
+  useEffect(() => {
+    if (!items.length) return;
+    for (let offset = -resolvedConfig.preloadRadius; offset <= resolvedConfig.preloadRadius; offset++) {
+      const index = resolvedConfig.loop
+        ? wrapIndex(state.currentIndex + offset, items.length)
+        : state.currentIndex + offset;
+      const url = items[index] && displayUrl(items[index]);
+      if (!url) continue;
+      imageLoader.load(url).catch(() => reportImageError(index));
+    }
+  }, [state.currentIndex, items, resolvedConfig.preloadRadius, resolvedConfig.loop]);
+
+  // Roving tabindex: keep keyboard focus on the selected dot.
+  useEffect(() => {
+    if (!focusTabOnChangeRef.current) return;
+    focusTabOnChangeRef.current = false;
+    tabsRef.current?.querySelector<HTMLElement>('[aria-selected="true"]')?.focus();
+  }, [state.currentIndex]);
+
+  useEffect(() => {
+    animationController.current?.updateConfig(resolvedConfig);
+  }, [config]);
+
+  useLayoutEffect(() => {
+    if (items.length === state.count) return;
+    masterTimelineRef.current?.kill();
+    // A running transition may be headed for a slide that no longer exists.
+    animationController.current?.stop();
+    automaticChangeRef.current = true;
+    dispatch({ type: 'SET_COUNT', payload: items.length });
+  }, [items.length]);
+
+  useLayoutEffect(() => {
+    const controller = animationController.current;
+    if (!controller) return;
+    controller.refresh(items.length);
+    controller.snapTo(state.currentIndex);
+    setDisplayedSlide(items[state.currentIndex]);
+  }, [state.count]);
+
+  useLayoutEffect(() => {
+    if (!carouselRef.current) return;
+
+    // A deep link beats `defaultIndex`; jumping before the controller exists means the first paint shows the linked slide.
+    const linkedIndex = !isControlled && historyOptions ? readSlideIndex(items, historyOptions) : null;
+    if (linkedIndex !== null && linkedIndex !== currentIndexRef.current) {
+      currentIndexRef.current = linkedIndex;
+      dispatch({ type: 'JUMP', payload: linkedIndex });
+      setDisplayedSlide(items[linkedIndex]);
+      setCenterIndex(linkedIndex);
+    }
+
+    const controller = new CarouselAnimation(carouselRef.current, resolvedConfig, items.length, events);
+    const offCenterChange = events.on('centerChange', ({ index }) => setCenterIndex(index));
+    controller.setMotionProfile(motion);
+    animationController.current = controller;
+    controller.snapTo(currentIndexRef.current);
+
+    const initialSlide = items[currentIndexRef.current];
+    const initialUrl = initialSlide && displayUrl(initialSlide);
+    const initialBg = bgRef1.current;
+    if (initialBg && initialUrl) {
+        imageLoader.whenSettled(initialUrl, BACKGROUND_HOLD_TIMEOUT_MS).then(() => {
+            if (imageLoader.getStatus(initialUrl) === 'error') return;
+            initialBg.style.backgroundImage = `url(${initialUrl})`;
+            gsap.to(initialBg, { opacity: 1, duration: motion.backgroundDuration, ease: 'power2.inOut' });
+        });
+    }
+
+    // The controller re-centers the current card itself when the track is resized.
+    return () => {
+      offCenterChange();
+      controller.destroy();
+    };
+  }, []);
+
+  // Plugins see the same events and controls as the ref handle; their listeners go away with them.
+  const pluginKey = plugins.map(plugin => plugin.name).join(',');
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || !plugins.length) return;
+    const subscriptions: (() => void)[] = [];
+    const context: CarouselPluginContext = {
+      root,
+      on: (type, listener) => {
+        const off = events.on(type, listener);
+        subscriptions.push(off);
+        return off;
+      },
+      getIndex: () => currentIndexRef.current,
+      next: () => navigateRef.current({ type: 'NEXT' }),
+      prev: () => navigateRef.current({ type: 'PREV' }),
+      goTo: (i) => navigateRef.current({ type: 'GOTO', payload: i }),
+    };
+    const teardowns = plugins.map(plugin => plugin.setup(context));
+    return () => {
+      teardowns.forEach(teardown => typeof teardown === 'function' && teardown());
+      subscriptions.forEach(off => off());
+    };
+  }, [pluginKey]);
+
+  return (
+    <section
+      ref={rootRef}
+      className={`relative w-full h-full flex flex-col items-center justify-center overflow-hidden antialiased text-white font-sans select-none ${className}`}
+      aria-roledescription="carousel"
+      aria-label={label}
+      dir={resolvedConfig.direction}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setHasFocus(true)}
+      onBlur={(e) => !e.currentTarget.contains(e.relatedTarget as Node | null) && setHasFocus(false)}
+      onPointerEnter={(e) => e.pointerType === 'mouse' && autoplay.pause('hover')}
+      onPointerLeave={(e) => e.pointerType === 'mouse' && autoplay.resume('hover')}
+    >
+      <div ref={bgRef1} className="w-full h-full absolute inset-0 bg-cover bg-center blur-xl scale-110 opacity-0"/>
+      <div ref={bgRef2} className="w-full h-full absolute inset-0 bg-cover bg-center blur-xl scale-110 opacity-0"/>
+      <div className="absolute inset-0 bg-black/70" />
+
+      {/* Announced once a transition settles; silenced while autoplay rotates slides unattended. */}
+      <div className="sr-only" aria-live={resolvedConfig.autoplay && !hasFocus && !userPaused ? 'off' : 'polite'} aria-atomic="true">
+        {displayedSlide && getSlideLabel(displayedSlide)}
+      </div>
+
+      <div className="relative w-full flex flex-col items-center justify-center z-10 space-y-8 py-8">
+        <div ref={headerRef} className="text-center px-4">
+          {renderHeader && displayedSlide ? (
+            <div className="overflow-hidden">
+                <div data-header-item>{renderHeader(displayedSlide)}</div>
+            </div>
+          ) : (
+            <>
+              <div className="h-12 md:h-14 overflow-hidden">
+                  <h1 data-header-item className="text-4xl md:text-5xl font-bold tracking-tight">{displayedSlide?.title}</h1>
+              </div>
+              <div className="h-7 md:h-8 overflow-hidden mt-2">
+                  <p data-header-item className="text-lg md:text-xl text-gray-300">{displayedSlide?.author && `by ${displayedSlide.author}`}</p>
+              </div>
+              {displayedSlide?.caption && (
+                <div className="max-w-xl mx-auto mt-4 overflow-hidden">
+                    <p data-header-item className="text-base md:text-lg text-gray-200">{displayedSlide.caption}</p>
+                </div>
+              )}
+              {displayedSlide?.cta && (
+                <div className="mt-4 overflow-hidden">
+                    <a data-header-item href={displayedSlide.cta.href} className="inline-block px-5 py-2 rounded-full bg-white text-black font-semibold transition-colors hover:bg-gray-200">{displayedSlide.cta.label}</a>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div
+            ref={gestureWrapperRef}
+            // A vertical track would otherwise spill over the header and controls above and below it.
+            className={`w-full relative h-[400px] md:h-[500px] lg:h-[600px] ${isVertical ? 'overflow-hidden' : ''}`}
+            style={{ touchAction: isVertical ? 'pan-x' : 'pan-y', cursor: 'grab' }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+        >
+            <div ref={carouselRef} id={`${baseId}-track`} className={isVertical ? 'absolute inset-0' : `absolute top-0 h-full ${isRtl ? 'right-0' : 'left-0'}`}>
+                {mountedIndices.map((index) => {
+                  const slide = items[index];
+                  const isCurrent = index === state.currentIndex;
+                  const isCentered = index === centerIndex;
+                  return (
+                    <div
+                        key={`${slide.id}-${index}`}
+                        id={slideId(index)}
+                        data-index={index}
+                        role="tabpanel"
+                        aria-roledescription="slide"
+                        aria-label={`${index + 1} of ${items.length}`}
+                        inert={!isCurrent}
+                        // Cards start at the leading edge of the track; the controller places them from there.
+                        className={`carousel-card absolute w-[70vw] md:w-[50vw] lg:w-[35vw] pointer-events-none origin-bottom ${isVertical ? 'top-0 inset-x-0 mx-auto my-8 h-[70%]' : `top-[10%] ${isRtl ? 'right-0' : 'left-0'} mx-8 h-[80%]`}`}>
+                        <div className="card-transformer w-full h-full">
+                            <div className="relative w-full h-full rounded-2xl overflow-hidden shadow-2xl">
+                                {renderCard
+                                  ? renderCard(slide, { index, isCurrent, isCentered })
+                                  : <SlideCard slide={slide} isCentered={isCentered} autoPlayVideo={motion.videoAutoplay} onError={() => reportImageError(index)} />}
+                            </div>
+                        </div>
+                    </div>
+                  );
+                })}
+            </div>
+        </div>
+
+        <div
+          className="w-full flex flex-col items-center space-y-4"
+          onFocus={() => autoplay.pause('focus')}
+          onBlur={(e) => !e.currentTarget.contains(e.relatedTarget as Node | null) && autoplay.resume('focus')}
+        >
+          <div className="flex items-center space-x-4">
+            {resolvedConfig.autoplay && (
+              <button
+                onClick={toggleUserPause}
+                className="p-3 rounded-full bg-white/10 transition-all enabled:hover:bg-white/20"
+                aria-label={userPaused ? 'Start automatic slide show' : 'Stop automatic slide show'}
+              >
+                {userPaused
+                  ? <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+                  : <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>}
+              </button>
+            )}
+            <button
+              onClick={() => navigate({type: 'PREV'})}
+              className="group p-3 rounded-full bg-white/10 transition-all enabled:hover:bg-white/20"
+              aria-label="Previous slide"
+              aria-controls={`${baseId}-track`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 transition-transform duration-300 ease-in-out ${prevArrowClass}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+            </button>
+            {lightbox && (
+              <button
+                onClick={() => setLightboxOpen(true)}
+                className="p-3 rounded-full bg-white/10 transition-all enabled:hover:bg-white/20"
+                aria-label="View slide fullscreen"
+                aria-haspopup="dialog"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" /></svg>
+              </button>
+            )}
+            <button
+              onClick={() => navigate({type: 'NEXT'})}
+              className="group p-3 rounded-full bg-white/10 transition-all enabled:hover:bg-white/20"
+              aria-label="Next slide"
+              aria-controls={`${baseId}-track`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 transition-transform duration-300 ease-in-out ${nextArrowClass}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div ref={tabsRef} role="tablist" aria-label="Slides" className="flex items-center space-x-2">
+              {getPagerDots(state.currentIndex, items.length, MAX_DOTS).map(({ index, size }) => {
+                const isActive = state.currentIndex === index;
+                // While autoplaying, the active dot stretches into a bar that fills until the next advance.
+                const showProgress = isActive && resolvedConfig.autoplay;
+                return (
+                  <button
+                    key={index}
+                    role="tab"
+                    aria-selected={isActive}
+                    // Virtualized slides may not be mounted; the track is the closest element that exists.
+                    aria-controls={mountedIndices.includes(index) ? slideId(index) : `${baseId}-track`}
+                    tabIndex={isActive ? 0 : -1}
+                    onClick={() => navigate({type: 'GOTO', payload: index })}
+                    className={`relative h-3 rounded-full overflow-hidden transition-all duration-300 ${ showProgress ? 'w-8 bg-white/40' : isActive ? 'w-3 bg-white scale-125' : 'w-3 bg-white/40 hover:bg-white/60' } ${ size === 'small' ? 'scale-75' : size === 'tiny' ? 'scale-50' : '' }`}
+                    aria-label={`Slide ${index + 1}`}
+                  >
+                    {showProgress && <span ref={progressRef} className={`absolute inset-0 bg-white scale-x-0 ${isRtl ? 'origin-right' : 'origin-left'}`} />}
+                  </button>
+                );
+              })}
+            </div>
+            {items.length > MAX_DOTS && (
+              <span className="text-sm tabular-nums text-gray-300" aria-hidden="true">{state.currentIndex + 1} / {items.length}</span>
+            )}
+          </div>
+          {thumbnails && (
+            <ThumbnailStrip
+              slides={items}
+              // Drags never leave the idle state, so the strip tracks the live center until a transition takes over.
+              activeIndex={state.status === 'animating' ? state.currentIndex : centerIndex}
+              onSelect={(i) => navigate({ type: 'GOTO', payload: i })}
+              animate={motion.trackDuration > 0}
+              controls={`${baseId}-track`}
+              windowed={isVirtualized}
+            />
+          )}
+        </div>
+      </div>
+
+      {lightbox && isLightboxOpen && items[state.currentIndex] && (
+        <Lightbox
+          slides={items}
+          index={state.currentIndex}
+          getCard={getCard}
+          motion={motion}
+          direction={resolvedConfig.direction}
+          onNavigate={navigate}
+          onClose={() => setLightboxOpen(false)}
+        />
+      )}
+    </section>
+  );
+}
+
+export default LagSlideshow;
@@ -0,0 +1,358 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { gsap } from 'gsap';
+import { CarouselAction, ReadingDirection, Slide } from '../types';
+import { MotionProfile } from '../lib/motion';
+import { getKeyboardAction } from '../lib/keyboard';
+import { getTrackAxis } from '../lib/geometry';
+import { fitContain, measureCardFrame } from '../lib/flip';
+import { isTap } from '../lib/gestures';
+import { pickImageUrl } from '../lib/responsiveImages';
+import { DOUBLE_TAP_ZOOM, Point, ZOOM_IDENTITY, ZoomState, clampPan, distance, midpoint, wheelZoomFactor, zoomAt } from '../lib/zoom';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+// Share of the viewport the fitted slide may take.
+const STAGE_MAX_WIDTH = 0.9;
+const STAGE_MAX_HEIGHT = 0.85;
+// Two taps closer than this in time and space make a double tap.
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP_PX = 30;
+// Horizontal travel at scale 1 that flips to the neighbouring slide.
+const SWIPE_PX = 60;
+// Scale change per +/- key press.
+const KEY_ZOOM_STEP = 1.5;
+// Corner radius of the card (rounded-2xl) the flight starts from and returns to.
+const CARD_RADIUS = 16;
+
+interface LightboxProps<T extends Slide> {
+  slides: T[];
+  index: number;
+  // The `.carousel-card` of a slide, to fly out of and back into.
+  getCard: (index: number) => HTMLElement | null;
+  motion: MotionProfile;
+  // Slides always page sideways here; right-to-left swaps which side is next.
+  direction: ReadingDirection;
+  onNavigate: (action: CarouselAction) => void;
+  // Called once the closing flight has landed.
+  onClose: () => void;
+}
+
+const getViewport = () => ({ width: window.innerWidth, height: window.innerHeight });
+
+// Aspect ratio of the image already showing on a card, so the stage opens at the right shape.
+const getCardAspect = (card: HTMLElement | null) => {
+  const img = card?.querySelector<HTMLImageElement>('picture img');
+  return img && img.naturalWidth ? img.naturalWidth / img.naturalHeight : null;
+};
+
+// Stage transform that lines it up with a card, rotation and all, relative to its centered rest position.
+const flightFromCard = (card: HTMLElement) => {
+  const frame = measureCardFrame(card);
+  const viewport = getViewport();
+  return {
+    x: frame.centerX - viewport.width / 2,
+    y: frame.centerY - viewport.height / 2,
+    width: frame.width,
+    height: frame.height,
+    rotation: frame.rotation,
+    rotationX: frame.rotationX,
+    rotationY: frame.rotationY,
+    borderRadius: CARD_RADIUS,
+  };
+};
+
+// Fullscreen view of the current slide. Opens and closes with a FLIP flight from its card;
+// images zoom with pinch, wheel, double tap or +/- and pan once zoomed.
+export function Lightbox<T extends Slide>({ slides, index, getCard, motion, direction, onNavigate, onClose }: LightboxProps<T>) {
+  const slide = slides[index];
+  const isImage = !slide.kind || slide.kind === 'image';
+  const axis = getTrackAxis('horizontal', direction);
+  // The arrow buttons swap sides in right-to-left, so their chevrons turn round with them.
+  const arrowFlip = direction === 'rtl' ? '-scale-x-100' : '';
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const chromeRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const zoomTargetRef = useRef<HTMLImageElement>(null);
+  const [viewport, setViewport] = useState(getViewport);
+  const [aspectRatio, setAspectRatio] = useState(() => getCardAspect(getCard(index)));
+  const isClosingRef = useRef(false);
+  const zoomRef = useRef<ZoomState>(ZOOM_IDENTITY);
+  const pointersRef = useRef(new Map<number, Point>());
+  // Snapshot taken whenever the set of pointers changes, so moves apply relative to it.
+  const gestureRef = useRef({ start: ZOOM_IDENTITY, origin: { x: 0, y: 0 } as Point, startDistance: 0, startTime: 0, pinched: false });
+  const lastTapRef = useRef({ time: 0, point: { x: 0, y: 0 } as Point });
+
+  const stage = fitContain(aspectRatio, viewport.width * STAGE_MAX_WIDTH, viewport.height * STAGE_MAX_HEIGHT);
+  const fadeDuration = Math.max(motion.lightboxDuration * 0.6, 0.2);
+
+  useFocusTrap(dialogRef, true);
+
+  const stageSize = () => ({ width: stageRef.current?.offsetWidth ?? 0, height: stageRef.current?.offsetHeight ?? 0 });
+
+  const toStagePoint = (clientX: number, clientY: number): Point => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  };
+
+  const applyZoom = (next: ZoomState, animate: boolean) => {
+    zoomRef.current = next;
+    if (!zoomTargetRef.current) return;
+    gsap.to(zoomTargetRef.current, {
+      ...next,
+      duration: animate ? motion.lightboxDuration * 0.4 : 0,
+      ease: 'power2.out',
+      overwrite: true,
+    });
+  };
+
+  const close = () => {
+    if (isClosingRef.current) return;
+    isClosingRef.current = true;
+    applyZoom(ZOOM_IDENTITY, true);
+
+    const card = getCard(index);
+    const duration = motion.lightboxDuration;
+    const timeline = gsap.timeline({ onComplete: onClose });
+    if (card && duration) {
+      timeline.to(stageRef.current, { ...flightFromCard(card), duration, ease: 'power3.inOut' }, 0);
+    } else {
+      timeline.to(stageRef.current, { opacity: 0, duration: fadeDuration }, 0);
+    }
+    // The backdrop clears as the slide lands on its card.
+    timeline.to([backdropRef.current, chromeRef.current], { opacity: 0, duration: fadeDuration }, Math.max(duration - fadeDuration, 0));
+  };
+
+  useLayoutEffect(() => {
+    const stageEl = stageRef.current;
+    gsap.set(stageEl, { xPercent: -50, yPercent: -50, transformPerspective: 1200 });
+    gsap.from([backdropRef.current, chromeRef.current], { opacity: 0, duration: fadeDuration, ease: 'power2.out' });
+
+    const card = getCard(index);
+    if (card && motion.lightboxDuration) {
+      gsap.from(stageEl, { ...flightFromCard(card), duration: motion.lightboxDuration, ease: 'power3.inOut' });
+    } else {
+      gsap.from(stageEl, { opacity: 0, duration: fadeDuration });
+    }
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setViewport(getViewport());
+      applyZoom(ZOOM_IDENTITY, false);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // A new slide starts unzoomed; images keep the previous shape until their own size is known.
+  useEffect(() => {
+    zoomRef.current = ZOOM_IDENTITY;
+    pointersRef.current.clear();
+    setAspectRatio(prev => (isImage ? getCardAspect(getCard(index)) ?? prev : null));
+  }, [index]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling.
+  useEffect(() => {
+    const stageEl = stageRef.current;
+    if (!stageEl || !isImage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { scale } = zoomRef.current;
+      applyZoom(zoomAt(zoomRef.current, scale * wheelZoomFactor(e.deltaY), toStagePoint(e.clientX, e.clientY), stageSize()), false);
+    };
+    stageEl.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stageEl.removeEventListener('wheel', handleWheel);
+  }, [isImage]);
+
+  const beginGesture = () => {
+    const points = [...pointersRef.current.values()];
+    const gesture = gestureRef.current;
+    gesture.start = zoomRef.current;
+    gesture.origin = points.length > 1 ? midpoint(points[0], points[1]) : points[0];
+    gesture.startDistance = points.length > 1 ? distance(points[0], points[1]) : 0;
+    if (points.length > 1) gesture.pinched = true;
+  };
+
+  const handleTap = (point: Point, time: number) => {
+    const lastTap = lastTapRef.current;
+    if (time - lastTap.time > DOUBLE_TAP_MS || distance(point, lastTap.point) > DOUBLE_TAP_SLOP_PX) {
+      lastTapRef.current = { time, point };
+      return;
+    }
+    lastTapRef.current = { time: 0, point };
+    if (!isImage) return;
+    const zoom = zoomRef.current;
+    applyZoom(zoom.scale > 1 ? ZOOM_IDENTITY : zoomAt(zoom, DOUBLE_TAP_ZOOM, point, stageSize()), true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isClosingRef.current) return;
+    // Other slide kinds keep their own pointer handling, e.g. video controls.
+    if (isImage) e.currentTarget.setPointerCapture(e.pointerId);
+    if (!pointersRef.current.size) {
+      gestureRef.current.startTime = e.timeStamp;
+      gestureRef.current.pinched = false;
+    }
+    pointersRef.current.set(e.pointerId, toStagePoint(e.clientX, e.clientY));
+    beginGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, toStagePoint(e.clientX, e.clientY));
+    if (!isImage) return;
+
+    const { start, origin, startDistance } = gestureRef.current;
+    const points = [...pointers.values()];
+    const size = stageSize();
+    if (points.length > 1 && startDistance) {
+      // Pinch scales around where the fingers started and pans with their midpoint.
+      const center = midpoint(points[0], points[1]);
+      const zoomed = zoomAt(start, start.scale * distance(points[0], points[1]) / startDistance, origin, size);
+      applyZoom(clampPan({ ...zoomed, x: zoomed.x + center.x - origin.x, y: zoomed.y + center.y - origin.y }, size), false);
+    } else if (start.scale > 1) {
+      applyZoom(clampPan({ ...start, x: start.x + points[0].x - origin.x, y: start.y + points[0].y - origin.y }, size), false);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    const point = toStagePoint(e.clientX, e.clientY);
+    pointers.delete(e.pointerId);
+    // Lifting one finger of a pinch hands over to panning with the other.
+    if (pointers.size) {
+      beginGesture();
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    if (gesture.pinched || e.type !== 'pointerup') return;
+    const deltaX = point.x - gesture.origin.x;
+    const deltaY = point.y - gesture.origin.y;
+    if (isTap(deltaX, deltaY, e.timeStamp - gesture.startTime)) {
+      handleTap(point, e.timeStamp);
+    } else if (zoomRef.current.scale === 1 && Math.abs(deltaX) > SWIPE_PX && Math.abs(deltaX) > Math.abs(deltaY)) {
+      onNavigate({ type: deltaX * axis.sign < 0 ? 'NEXT' : 'PREV' });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The slideshow behind the portal would otherwise react to the same keys.
+    e.stopPropagation();
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+      return;
+    }
+    if (isImage && ['+', '=', '-', '0'].includes(e.key)) {
+      e.preventDefault();
+      const { scale } = zoomRef.current;
+      const nextScale = e.key === '0' ? 1 : e.key === '-' ? scale / KEY_ZOOM_STEP : scale * KEY_ZOOM_STEP;
+      applyZoom(zoomAt(zoomRef.current, nextScale, { x: 0, y: 0 }, stageSize()), true);
+      return;
+    }
+    const action = getKeyboardAction(e.key, index, slides.length, axis);
+    if (!action) return;
+    e.preventDefault();
+    onNavigate(action);
+  };
+
+  const renderContent = () => {
+    switch (slide.kind) {
+      case 'video':
+        return (
+          <video
+            key={slide.id}
+            src={slide.url}
+            poster={slide.poster}
+            controls
+            autoPlay={motion.videoAutoplay}
+            muted
+            playsInline
+            loop={slide.loop ?? true}
+            className="w-full h-full object-contain bg-black"
+          />
+        );
+      case 'custom':
+        return <div key={slide.id} className="w-full h-full">{slide.content}</div>;
+      default:
+        return (
+          <img
+            key={slide.id}
+            ref={zoomTargetRef}
+            src={pickImageUrl(slide, viewport.width)}
+            alt={slide.title}
+            draggable={false}
+            onLoad={(e) => setAspectRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+            className="w-full h-full object-cover"
+          />
+        );
+    }
+  };
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      dir={direction}
+      aria-label={`${slide.title}, ${index + 1} of ${slides.length}`}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className="fixed inset-0 z-50 text-white font-sans antialiased select-none"
+    >
+      <div ref={backdropRef} className="absolute inset-0 bg-black/90" onClick={close} />
+      <div
+        ref={stageRef}
+        className={`absolute left-1/2 top-1/2 overflow-hidden rounded-lg shadow-2xl ${isImage ? 'touch-none cursor-zoom-in' : ''}`}
+        style={{ width: stage.width, height: stage.height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {renderContent()}
+      </div>
+      <div ref={chromeRef} className="absolute inset-0 pointer-events-none">
+        <button
+          onClick={close}
+          className="absolute top-4 end-4 p-3 rounded-full bg-white/10 transition-all hover:bg-white/20 pointer-events-auto"
+          aria-label="Close fullscreen view"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+        <button
+          onClick={() => onNavigate({ type: 'PREV' })}
+          className="absolute start-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 transition-all hover:bg-white/20 pointer-events-auto"
+          aria-label="Previous slide"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 ${arrowFlip}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <button
+          onClick={() => onNavigate({ type: 'NEXT' })}
+          className="absolute end-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 transition-all hover:bg-white/20 pointer-events-auto"
+          aria-label="Next slide"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 ${arrowFlip}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+        </button>
+        <div className="absolute bottom-4 inset-x-0 text-center" aria-live="polite" aria-atomic="true">
+          <p className="font-semibold">{slide.title}</p>
+          <p className="text-sm text-gray-300 tabular-nums">{index + 1} / {slides.length}</p>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default Lightbox;
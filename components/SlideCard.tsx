@@ -0,0 +1,25 @@
+import React from 'react';
+import { Slide } from '../types';
+import { CardImage } from './CardImage';
+import { CardVideo } from './CardVideo';
+
+interface SlideCardProps {
+  slide: Slide;
+  isCentered: boolean;
+  autoPlayVideo: boolean;
+  onError?: () => void;
+}
+
+// Default card content for each slide kind.
+export const SlideCard: React.FC<SlideCardProps> = ({ slide, isCentered, autoPlayVideo, onError }) => {
+  switch (slide.kind) {
+    case 'video':
+      return <CardVideo slide={slide} isCentered={isCentered} autoPlay={autoPlayVideo} onError={onError} />;
+    case 'custom':
+      return <div className="w-full h-full">{slide.content}</div>;
+    default:
+      return <CardImage image={slide} onError={onError} />;
+  }
+};
+
+export default SlideCard;
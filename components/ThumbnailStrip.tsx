@@ -0,0 +1,134 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { gsap } from 'gsap';
+import { Slide } from '../types';
+import { getSlideImageUrl } from '../lib/slides';
+import { getWindowStart } from '../lib/virtualization';
+
+// Rendered thumbnail width in CSS pixels, used to pick the smallest fitting rendition.
+const THUMB_WIDTH = 80;
+// Mouse travel that turns a press on the strip into a drag instead of a click.
+const DRAG_SLOP_PX = 5;
+// How long the strip leaves the user's scroll position alone after they scroll it themselves.
+const USER_SCROLL_HOLD_MS = 1500;
+// Thumbnails kept mounted around the active one when the slideshow is virtualized.
+const WINDOWED_THUMBNAILS = 31;
+
+interface ThumbnailStripProps {
+  slides: Slide[];
+  // Slide to highlight: the live center while the track is dragged, otherwise the current slide.
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  // Scroll smoothly to the active thumbnail instead of jumping.
+  animate: boolean;
+  // Id of the track the thumbnails control.
+  controls?: string;
+  // Mount only a window of thumbnails around the active one, for virtualized slideshows with many slides.
+  windowed?: boolean;
+}
+
+// Filmstrip of every slide that keeps the active one centered and scrolls on its own with touch, wheel or mouse drag.
+export const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({ slides, activeIndex, onSelect, animate, controls, windowed = false }) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef({ pointerId: null as number | null, startX: 0, startScroll: 0, moved: false });
+  const lastUserScrollRef = useRef(0);
+  // Renditions depend on the pixel ratio and media queries, so thumbnails show titles until mounted in the browser.
+  const [hasMounted, setHasMounted] = useState(false);
+  useLayoutEffect(() => setHasMounted(true), []);
+
+  const windowStart = windowed ? getWindowStart(activeIndex, slides.length, WINDOWED_THUMBNAILS) : 0;
+  const visibleSlides = windowed ? slides.slice(windowStart, windowStart + WINDOWED_THUMBNAILS) : slides;
+
+  const markUserScroll = () => {
+    lastUserScrollRef.current = performance.now();
+    gsap.killTweensOf(stripRef.current);
+  };
+
+  useEffect(() => {
+    const strip = stripRef.current;
+    const thumb = strip?.querySelector<HTMLElement>(`[data-thumb-index="${activeIndex}"]`);
+    if (!strip || !thumb) return;
+
+    // Keyboard focus follows the selection, like the dots.
+    if (strip.contains(document.activeElement) && document.activeElement !== thumb) thumb.focus({ preventScroll: true });
+
+    if (performance.now() - lastUserScrollRef.current < USER_SCROLL_HOLD_MS) return;
+    // Measured on screen rather than from offsetLeft, since scrollLeft runs negative when the strip is right-to-left.
+    const stripRect = strip.getBoundingClientRect();
+    const thumbRect = thumb.getBoundingClientRect();
+    const target = strip.scrollLeft + (thumbRect.left + thumbRect.width / 2) - (stripRect.left + stripRect.width / 2);
+    gsap.to(strip, { scrollLeft: target, duration: animate ? 0.4 : 0, ease: 'power2.out', overwrite: true });
+  }, [activeIndex]);
+
+  // Touch scrolls natively; the mouse drags the strip by hand.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'mouse' || e.button !== 0) return;
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startScroll: e.currentTarget.scrollLeft, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag.pointerId !== e.pointerId) return;
+    const deltaX = e.clientX - drag.startX;
+    if (!drag.moved && Math.abs(deltaX) < DRAG_SLOP_PX) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    markUserScroll();
+    e.currentTarget.scrollLeft = drag.startScroll - deltaX;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current.pointerId !== e.pointerId) return;
+    dragRef.current.pointerId = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  // A drag that ends over a thumbnail must not also select it.
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (!dragRef.current.moved) return;
+    dragRef.current.moved = false;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      ref={stripRef}
+      role="group"
+      aria-label="Slide thumbnails"
+      className="w-full max-w-3xl flex gap-2 px-4 py-2 overflow-x-auto [scrollbar-width:none] cursor-grab"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClickCapture={handleClickCapture}
+      onWheel={markUserScroll}
+      onTouchMove={markUserScroll}
+    >
+      {visibleSlides.map((slide, i) => {
+        const index = windowStart + i;
+        const isActive = index === activeIndex;
+        const imageUrl = hasMounted ? getSlideImageUrl(slide, THUMB_WIDTH) : undefined;
+        return (
+          <button
+            key={`${slide.id}-${index}`}
+            data-thumb-index={index}
+            tabIndex={isActive ? 0 : -1}
+            aria-current={isActive}
+            aria-controls={controls}
+            aria-label={`Slide ${index + 1}: ${slide.title}`}
+            onClick={() => onSelect(index)}
+            className={`relative shrink-0 w-16 h-12 md:w-20 md:h-14 rounded-md overflow-hidden ring-2 transition-all duration-300 ${isActive ? 'ring-white opacity-100' : 'ring-transparent opacity-50 hover:opacity-80'}`}
+          >
+            {imageUrl
+              ? <img src={imageUrl} alt="" loading="lazy" draggable={false} className="w-full h-full object-cover" />
+              : <span className="flex w-full h-full items-center justify-center bg-white/10 px-1 text-[10px] leading-tight">{slide.title}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ThumbnailStrip;
@@ -0,0 +1,60 @@
+import { AnimationConfig, CarouselImage, ImageSource } from './types';
+import { templateSources } from './lib/responsiveImages';
+
+const WIDTHS = [400, 800, 1200, 1600];
+
+// Picsum serves any size and a WebP variant when the path ends in `.webp`.
+const picsumSources = (id: number, aspectRatio = 1): ImageSource[] => {
+  const template = `https://picsum.photos/id/${id}/{width}/{height}{format}`;
+  return [
+    ...templateSources(template, WIDTHS, { type: 'image/webp', format: '.webp', aspectRatio }),
+    ...templateSources(template, WIDTHS, { aspectRatio }),
+  ];
+};
+
+export const images: CarouselImage[] = [
+  {
+    id: 0, url: 'https://picsum.photos/id/10/800/800', title: 'Mountain Lake', author: 'Alejandro Escamilla',
+    sources: picsumSources(10),
+    // Tall crop for phones, where cards are narrow and the full-height track makes them portrait.
+    crops: [{ media: '(max-width: 767px)', sources: picsumSources(10, 1.5), focalPoint: { x: 0.5, y: 0.6 } }],
+  },
+  { id: 1, url: 'https://picsum.photos/id/20/800/800', title: 'Foggy Pier', author: 'Paul Jarvis', sources: picsumSources(20) },
+  { id: 2, url: 'https://picsum.photos/id/30/800/800', title: 'City at Night', author: 'Paul Jarvis', sources: picsumSources(30) },
+  { id: 3, url: 'https://picsum.photos/id/42/800/800', title: 'Workspace', author: 'Tina Rataj', sources: picsumSources(42), focalPoint: { x: 0.4, y: 0.5 } },
+  {
+    id: 4, url: 'https://picsum.photos/id/54/800/800', title: 'Vintage Camera', author: 'Luke Chesser', sources: picsumSources(54),
+    caption: 'Film cameras are back: slower to shoot, but every frame is a decision.',
+    cta: { label: 'Browse the collection', href: 'https://picsum.photos/' },
+  },
+  { id: 5, url: 'https://picsum.photos/id/68/800/800', title: 'Autumn Road', author: 'Marcin Czerwinski', sources: picsumSources(68) },
+  { id: 6, url: 'https://picsum.photos/id/75/800/800', title: 'Reading Time', author: 'Verne Ho', sources: picsumSources(75) },
+];
+
+export const defaultConfig: AnimationConfig = {
+  stagger: 0.05,
+  layout: 'linear',
+  orientation: 'horizontal',
+  direction: 'ltr',
+  arcStrength: 300,
+  arcRotation: 20,
+  coverflowAngle: 50,
+  coverflowDepth: 200,
+  cylinderAngle: 90,
+  loop: true,
+  momentum: 1,
+  edgeResistance: 0.5,
+  autoplay: false,
+  autoplayInterval: 5,
+  autoplayDirection: 'forward',
+  pauseOnHover: true,
+  pauseOnFocus: true,
+  motion: 'auto',
+  duration: 1.5,
+  ease: 'power4.inOut',
+  virtualizeThreshold: 40,
+  virtualWindow: 6,
+  preloadRadius: 2,
+  transition: 'lag-push',
+  transitionParams: {},
+};
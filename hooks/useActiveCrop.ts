@@ -0,0 +1,23 @@
+import { useLayoutEffect, useState } from 'react';
+import { ImageCrop } from '../types';
+import { getActiveCrop } from '../lib/responsiveImages';
+
+// Tracks which art-directed crop applies to the current viewport, matching what <picture> picks.
+// Media queries are only evaluated in the browser, so server renders start without a crop.
+export function useActiveCrop(crops?: ImageCrop[]): ImageCrop | undefined {
+  const [activeCrop, setActiveCrop] = useState<ImageCrop | undefined>(undefined);
+
+  useLayoutEffect(() => {
+    if (!crops?.length) {
+      setActiveCrop(undefined);
+      return;
+    }
+    const mediaQueries = crops.map(crop => window.matchMedia(crop.media));
+    const handleChange = () => setActiveCrop(getActiveCrop(crops));
+    handleChange();
+    mediaQueries.forEach(mediaQuery => mediaQuery.addEventListener('change', handleChange));
+    return () => mediaQueries.forEach(mediaQuery => mediaQuery.removeEventListener('change', handleChange));
+  }, [crops]);
+
+  return activeCrop;
+}
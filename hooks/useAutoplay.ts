@@ -0,0 +1,94 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { gsap } from 'gsap';
+import { CarouselState } from '../types';
+
+export type AutoplayPauseReason = 'hover' | 'focus' | 'drag' | 'hidden' | 'user' | 'lightbox';
+
+interface AutoplayOptions {
+  enabled: boolean;
+  // Seconds each slide stays up before advancing.
+  interval: number;
+  pauseOnHover: boolean;
+  pauseOnFocus: boolean;
+  status: CarouselState['status'];
+  currentIndex: number;
+  // Element whose scaleX is driven from 0 to 1 as the interval elapses.
+  progressRef: RefObject<HTMLElement | null>;
+  onAdvance: () => void;
+}
+
+// Times slide advances with a GSAP tween so pausing also freezes the progress indicator.
+export function useAutoplay({
+  enabled,
+  interval,
+  pauseOnHover,
+  pauseOnFocus,
+  status,
+  currentIndex,
+  progressRef,
+  onAdvance,
+}: AutoplayOptions) {
+  const tweenRef = useRef<gsap.core.Tween | null>(null);
+  const reasonsRef = useRef(new Set<AutoplayPauseReason>());
+  const onAdvanceRef = useRef(onAdvance);
+  onAdvanceRef.current = onAdvance;
+  const rulesRef = useRef({ hover: pauseOnHover, focus: pauseOnFocus });
+  rulesRef.current = { hover: pauseOnHover, focus: pauseOnFocus };
+
+  const sync = useCallback(() => {
+    const tween = tweenRef.current;
+    if (!tween) return;
+    if (reasonsRef.current.size) tween.pause();
+    else tween.resume();
+  }, []);
+
+  const pause = useCallback((reason: AutoplayPauseReason) => {
+    if (reason === 'hover' && !rulesRef.current.hover) return;
+    if (reason === 'focus' && !rulesRef.current.focus) return;
+    reasonsRef.current.add(reason);
+    sync();
+  }, [sync]);
+
+  const resume = useCallback((reason: AutoplayPauseReason) => {
+    reasonsRef.current.delete(reason);
+    sync();
+  }, [sync]);
+
+  // Drop pauses whose rule was switched off while they were active.
+  useEffect(() => {
+    if (!pauseOnHover) resume('hover');
+    if (!pauseOnFocus) resume('focus');
+  }, [pauseOnHover, pauseOnFocus, resume]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause('hidden');
+      else resume('hidden');
+    };
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [pause, resume]);
+
+  // A fresh countdown starts every time the carousel settles on a slide.
+  useEffect(() => {
+    if (!enabled || status !== 'idle') return;
+    const progressEl = progressRef.current;
+    const tween = gsap.fromTo(progressEl ?? {}, { scaleX: 0 }, {
+      scaleX: 1,
+      duration: interval,
+      ease: 'none',
+      paused: reasonsRef.current.size > 0,
+      onComplete: () => onAdvanceRef.current(),
+    });
+    tweenRef.current = tween;
+
+    return () => {
+      tween.kill();
+      tweenRef.current = null;
+      if (progressEl) gsap.set(progressEl, { scaleX: 0 });
+    };
+  }, [enabled, interval, status, currentIndex]);
+
+  return { pause, resume };
+}
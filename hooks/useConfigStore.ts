@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { AnimationConfig } from '../types';
+import { ConfigStore } from '../services/configStore';
+
+// Current config of `store`, re-rendering whenever it changes.
+export function useConfigStore(store: ConfigStore): AnimationConfig {
+  return useSyncExternalStore(store.subscribe, store.getConfig);
+}
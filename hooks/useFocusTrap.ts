@@ -0,0 +1,46 @@
+import { RefObject, useEffect } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])';
+
+// Keeps Tab cycling inside `containerRef` while active and hands focus back to where it was afterwards.
+export function useFocusTrap(containerRef: RefObject<HTMLElement | null>, active: boolean) {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const focusables = (): HTMLElement[] => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    const focusFirst = () => (focusables()[0] ?? container).focus();
+    focusFirst();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const items = focusables();
+      if (!items.length) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    // Catches focus that escapes some other way, e.g. a click on the page behind.
+    const handleFocusIn = (e: FocusEvent) => {
+      if (!container.contains(e.target as Node)) focusFirst();
+    };
+
+    container.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('focusin', handleFocusIn);
+    return () => {
+      container.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('focusin', handleFocusIn);
+      previouslyFocused?.focus?.();
+    };
+  }, [active]);
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { Slide } from '../types';
+import { HistorySyncOptions, formatSlideParam, readSlideIndex, readSlideParam, writeSlideParam } from '../lib/deepLink';
+
+interface HistorySyncParams {
+  // Null disables syncing.
+  options: Required<HistorySyncOptions> | null;
+  slides: Slide[];
+  currentIndex: number;
+  // Back/forward or a hand-edited URL pointed at another slide.
+  onNavigate: (index: number) => void;
+  // True when the latest index change wasn't the user's (autoplay, an interrupt, removed items); it then replaces
+  // the current entry even with `method: 'push'`, so back doesn't walk through every autoplayed slide.
+  isAutomaticChange?: () => boolean;
+}
+
+// Mirrors the current slide into the URL and follows the URL when the user navigates history.
+export function useHistorySync({ options, slides, currentIndex, onNavigate, isAutomaticChange }: HistorySyncParams) {
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+  const slidesRef = useRef(slides);
+  slidesRef.current = slides;
+  const isFirstWriteRef = useRef(true);
+
+  // The landing write is per mount: StrictMode's simulated remount must not count as a later, pushed write.
+  useEffect(() => () => {
+    isFirstWriteRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!options) return;
+    const isFirstWrite = isFirstWriteRef.current;
+    isFirstWriteRef.current = false;
+    if (isFirstWrite) {
+      // A controlled parent may not have seen the deep link yet; let it move instead of overwriting the URL.
+      const linkedIndex = readSlideIndex(slides, options);
+      if (linkedIndex !== null && linkedIndex !== currentIndex) {
+        onNavigateRef.current(linkedIndex);
+        return;
+      }
+    }
+    const value = formatSlideParam(slides, currentIndex, options);
+    const href = window.location.href;
+    if (readSlideParam(href, options) === value) return;
+    const nextHref = writeSlideParam(href, value, options);
+    // The landing slide never gets its own entry, so back leaves the page instead of stepping to it.
+    if (options.method === 'push' && !isFirstWrite && !isAutomaticChange?.()) {
+      window.history.pushState(window.history.state, '', nextHref);
+    } else {
+      window.history.replaceState(window.history.state, '', nextHref);
+    }
+  }, [options?.location, options?.param, options?.format, options?.method, currentIndex, slides]);
+
+  useEffect(() => {
+    if (!options) return;
+    const handleNavigation = () => {
+      const index = readSlideIndex(slidesRef.current, options);
+      if (index !== null) onNavigateRef.current(index);
+    };
+    window.addEventListener('popstate', handleNavigation);
+    window.addEventListener('hashchange', handleNavigation);
+    return () => {
+      window.removeEventListener('popstate', handleNavigation);
+      window.removeEventListener('hashchange', handleNavigation);
+    };
+  }, [options?.location, options?.param, options?.format, options?.method]);
+}
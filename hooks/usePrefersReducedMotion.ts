@@ -0,0 +1,19 @@
+import { useLayoutEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+// Tracks the OS-level reduced motion setting, including changes while the page is open.
+// Server renders assume full motion; the real setting is read before the first paint in the browser.
+export function usePrefersReducedMotion(): boolean {
+  const [prefersReduced, setPrefersReduced] = useState(false);
+
+  useLayoutEffect(() => {
+    const mediaQuery = window.matchMedia(QUERY);
+    const handleChange = () => setPrefersReduced(mediaQuery.matches);
+    handleChange();
+    mediaQuery.addEventListener('change', handleChange);
+    return () => mediaQuery.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersReduced;
+}
@@ -0,0 +1,405 @@
+import { gsap } from 'gsap';
+import { AnimationConfig, LayoutName } from '../types';
+import { circularDelta, wrapIndex } from './utils';
+import { rubberBand } from './gestures';
+import { MotionProfile, fullMotion } from './motion';
+import { TRANSFORMER_REST, getTransition, resolveTransitionParams } from './transitions';
+import { getLayout, mixTransforms } from './layouts';
+import { CarouselEvents, Emitter } from './events';
+import {
+  TrackAxis, TrackGeometry, getCardStart, getClosestVirtualIndex, getTargetOffset, getTrackAxis, getTrackPosition, orientVars,
+} from './geometry';
+
+export interface GoToOptions {
+  // Signed number of slides to travel in loop mode; 0 takes the shortest way round.
+  steps?: number;
+  // Release velocity of a drag in px/ms; non-zero turns the move into a decelerating throw.
+  velocity?: number;
+}
+
+export class CarouselAnimation {
+  public carouselEl: HTMLDivElement | null; // Public for external access if needed, but safer typing here
+  // Mounted cards only; with virtualization this is a window of the slides.
+  public cards: HTMLElement[];
+  // Slide index of each mounted card, read from its `data-index`.
+  private cardIndices: number[] = [];
+  // Total number of slides, mounted or not.
+  private count: number;
+  // Receives the track-level events: dragMove, interrupt, layoutChange, centerChange and tick.
+  // Pass a shared emitter to the constructor to merge them with events from elsewhere.
+  public readonly events: Emitter<CarouselEvents>;
+  private lastCenterIndex = -1;
+  private config: AnimationConfig;
+  private axis: TrackAxis;
+  public mainTween: gsap.core.Tween | null = null;
+  public cardsTimeline: gsap.core.Animation | null = null;
+  // Virtual index the track last settled on or is heading to.
+  private currentVirtualIndex = 0;
+  private motion: MotionProfile = fullMotion;
+  // Progress of a layout mode change; the render loop blends `from` into the current layout.
+  private layoutBlend = { from: 'linear' as LayoutName, progress: 1 };
+  private layoutTween: gsap.core.Tween | null = null;
+  private geometry: TrackGeometry | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  // The render loop only writes transforms when the track moved or something marked it dirty.
+  private needsRender = true;
+  private lastRenderedOffset = NaN;
+  private culled = new WeakSet<HTMLElement>();
+
+
+  constructor(carouselEl: HTMLDivElement, initialConfig: AnimationConfig, count?: number, events = new Emitter<CarouselEvents>()) {
+    this.carouselEl = carouselEl;
+    this.events = events;
+    this.cards = gsap.utils.toArray(this.carouselEl.children);
+    this.cardIndices = this.readCardIndices();
+    this.count = count ?? this.cards.length;
+    this.config = initialConfig;
+    this.axis = getTrackAxis(initialConfig.orientation, initialConfig.direction);
+
+    this.resizeObserver = new ResizeObserver(this.handleResize);
+    if (carouselEl.parentElement) this.resizeObserver.observe(carouselEl.parentElement);
+    
+    // Add render loop for layout transformations
+    gsap.ticker.add(this.render);
+  }
+  
+  public getClosestIndex(offset?: number): number {
+    if (!this.count) return 0;
+    return wrapIndex(this.getClosestVirtualIndex(offset), this.count);
+  }
+
+  // In loop mode the track is unbounded: virtual index `i + lap * count` is card `i` one lap further along.
+  public getClosestVirtualIndex(offset: number = this.getOffset()): number {
+    if (!this.carouselEl || !this.count) return 0;
+    return getClosestVirtualIndex(this.getGeometry(), offset, this.count, this.config.loop);
+  }
+
+  // Logical offset of the track: along its axis, growing towards later slides whatever the direction.
+  public getOffset(): number {
+    if (!this.carouselEl) return 0;
+    return this.axis.sign * (gsap.getProperty(this.carouselEl, this.axis.main) as number);
+  }
+
+  private trackVars(offset: number) {
+    return { [this.axis.main]: this.axis.sign * offset };
+  }
+
+  // Kill the running track and card tweens, leaving everything where it is.
+  public stop() {
+    this.mainTween?.kill();
+    this.cardsTimeline?.kill();
+    if (this.carouselEl) {
+        gsap.killTweensOf(this.carouselEl);
+    }
+  }
+
+  // Stop the track where it is and adopt the card nearest the center.
+  public interrupt(): number {
+    this.stop();
+    this.currentVirtualIndex = this.getClosestVirtualIndex();
+    const index = this.getClosestIndex();
+    this.events.emit('interrupt', { index });
+    return index;
+  }
+
+  public destroy() {
+    gsap.ticker.remove(this.render);
+    this.resizeObserver?.disconnect();
+    this.layoutTween?.kill();
+    this.mainTween?.kill();
+    this.cardsTimeline?.kill();
+    if (this.carouselEl) {
+        gsap.killTweensOf([this.carouselEl, ...this.cards]);
+    }
+  }
+
+  public updateConfig(newConfig: Partial<AnimationConfig>) {
+    const closestIndex = this.getClosestIndex();
+    const loopChanged = newConfig.loop !== undefined && newConfig.loop !== this.config.loop;
+    const previousLayout = this.config.layout;
+    const previousAxis = this.axis;
+    this.config = { ...this.config, ...newConfig };
+    this.axis = getTrackAxis(this.config.orientation, this.config.direction);
+    this.needsRender = true;
+    if (this.axis.main !== previousAxis.main || this.axis.sign !== previousAxis.sign) {
+      this.resetAxis(closestIndex);
+      return;
+    }
+    if (this.config.layout !== previousLayout) {
+      this.animateLayoutChange(previousLayout);
+      this.events.emit('layoutChange', { layout: this.config.layout, previousLayout });
+    }
+    // Leaving loop mode may strand the track a few laps away from the real cards.
+    if (loopChanged) this.snapTo(closestIndex);
+  }
+
+  // Drops transforms written for the previous axis and re-centers the current card on the new one.
+  private resetAxis(index: number) {
+    this.mainTween?.kill();
+    this.cardsTimeline?.kill();
+    const transformers = this.cards.map(card => card.querySelector('.card-transformer'));
+    const targets = [this.carouselEl, ...this.cards, ...transformers].filter(Boolean);
+    gsap.killTweensOf(targets);
+    gsap.set(targets, { x: 0, y: 0, rotation: 0, rotationX: 0, rotationY: 0 });
+    this.invalidateGeometry();
+    this.snapTo(index);
+  }
+
+  private animateLayoutChange(from: LayoutName) {
+    this.layoutTween?.kill();
+    this.layoutBlend = { from, progress: 0 };
+    this.layoutTween = gsap.to(this.layoutBlend, {
+      progress: 1,
+      duration: this.motion.layoutTransforms ? 0.8 : 0,
+      ease: 'power3.inOut',
+      onUpdate: () => { this.needsRender = true; },
+    });
+  }
+
+  public setMotionProfile(motion: MotionProfile) {
+    this.motion = motion;
+    this.needsRender = true;
+  }
+
+  // Re-read the card elements after React mounts or unmounts slides.
+  public refresh(count: number = this.count) {
+    if (!this.carouselEl) return;
+    this.cards = gsap.utils.toArray(this.carouselEl.children);
+    this.cardIndices = this.readCardIndices();
+    this.count = count;
+    this.invalidateGeometry();
+    // Position newly mounted cards before the browser paints them.
+    this.render();
+  }
+
+  private readCardIndices(): number[] {
+    return this.cards.map((card, i) => card.dataset.index !== undefined ? Number(card.dataset.index) : i);
+  }
+
+  private invalidateGeometry() {
+    this.geometry = null;
+    this.needsRender = true;
+  }
+
+  private handleResize = () => {
+    this.invalidateGeometry();
+    // Keep the current card centered unless a tween is already taking the track somewhere.
+    if (this.count && !this.mainTween?.isActive()) {
+      this.snapTo(wrapIndex(this.currentVirtualIndex, this.count));
+    }
+  }
+
+  private getGeometry(): TrackGeometry {
+    if (!this.geometry) {
+      const card = this.cards[0];
+      const parent = this.carouselEl?.parentElement;
+      const isVertical = this.axis.main === 'y';
+      let cardOffset = 0;
+      let cardSize = 0;
+      let pitch = 0;
+      if (card) {
+        const style = getComputedStyle(card);
+        const [leading, trailing] = isVertical
+          ? [style.marginTop, style.marginBottom]
+          : this.axis.sign > 0 ? [style.marginLeft, style.marginRight] : [style.marginRight, style.marginLeft];
+        cardOffset = parseFloat(leading) || 0;
+        cardSize = isVertical ? card.offsetHeight : card.offsetWidth;
+        pitch = cardOffset + cardSize + (parseFloat(trailing) || 0);
+      }
+      this.geometry = {
+        viewportSize: (isVertical ? parent?.offsetHeight : parent?.offsetWidth) ?? 0,
+        cardOffset,
+        cardSize,
+        pitch,
+        trackLength: pitch * this.count,
+      };
+    }
+    return this.geometry;
+  }
+
+  private getTargetOffset(index: number): number {
+    if (!this.carouselEl) return 0;
+    return getTargetOffset(this.getGeometry(), index, this.count, this.config.loop);
+  }
+
+  // Moves the track to `baseOffset + delta`, both logical offsets (see getOffset).
+  public drag(baseOffset: number, delta: number) {
+    if (!this.carouselEl) return;
+    let offset = baseOffset + delta;
+    if (!this.config.loop && this.count) {
+      // Resist dragging past the first and last card.
+      const maxOffset = this.getTargetOffset(0);
+      const minOffset = this.getTargetOffset(this.count - 1);
+      const { viewportSize } = this.getGeometry();
+      if (offset > maxOffset) offset = maxOffset + rubberBand(offset - maxOffset, viewportSize, this.config.edgeResistance);
+      if (offset < minOffset) offset = minOffset + rubberBand(offset - minOffset, viewportSize, this.config.edgeResistance);
+    }
+    gsap.set(this.carouselEl, this.trackVars(offset));
+    const { pitch } = this.getGeometry();
+    this.events.emit('dragMove', { deltaX: delta, progress: pitch ? -delta / pitch : 0 });
+  }
+
+  public goTo(fromIndex: number, toIndex: number, onComplete?: () => void, options: GoToOptions = {}) {
+    if (toIndex < 0 || toIndex >= this.count) return;
+
+    const count = this.count;
+    let targetIndex = toIndex;
+    if (this.config.loop) {
+      // Start from the lap of `fromIndex` the track is on and take the requested or the short way round.
+      let fromVirtual = this.currentVirtualIndex;
+      if (wrapIndex(fromVirtual, count) !== fromIndex) {
+        const closest = this.getClosestVirtualIndex();
+        fromVirtual = closest + circularDelta(wrapIndex(closest, count), fromIndex, count);
+      }
+      targetIndex = fromVirtual + (options.steps || circularDelta(fromIndex, toIndex, count));
+    }
+    this.currentVirtualIndex = targetIndex;
+
+    const targetOffset = this.getTargetOffset(targetIndex);
+    const velocity = options.velocity ?? 0;
+    let duration = this.motion.trackDuration;
+    let ease = this.motion.trackEase;
+    if (velocity && duration > 0) {
+      // A power3.out tween starts at 3x its average speed; match that to the release velocity.
+      const distance = Math.abs(targetOffset - this.getOffset());
+      duration = gsap.utils.clamp(0.5, 1.5, (3 * distance) / (Math.abs(velocity) * 1000));
+      ease = 'power3.out';
+    }
+
+    this.mainTween = gsap.to(this.carouselEl, {
+      ...this.trackVars(targetOffset),
+      duration,
+      ease,
+      overwrite: 'auto',
+      onComplete: () => {
+        if (this.config.loop) this.snapTo(toIndex);
+        onComplete?.();
+      },
+    });
+
+    this.cardsTimeline?.kill();
+    
+    const cardTransformers = this.cards
+      .map(card => card.querySelector('.card-transformer') as HTMLElement)
+      .filter(Boolean);
+
+    // Signed position of mounted card `i` relative to the destination, measured around the loop when looping.
+    const offsetFromTarget = (i: number) => {
+      const index = this.cardIndices[i];
+      return this.config.loop ? circularDelta(toIndex, index, count) : index - toIndex;
+    };
+
+    if (fromIndex !== toIndex && this.motion.cardPush) {
+        const maxOffset = Math.max(...cardTransformers.map((_, i) => Math.abs(offsetFromTarget(i))), 1);
+        const staggerEase = gsap.parseEase('power2.out');
+        const preset = getTransition(this.config.transition);
+
+        this.cardsTimeline = preset.play({
+            fromIndex,
+            toIndex,
+            cardTransformers,
+            offsetFromTarget,
+            // The effect radiates from the destination card, eased like a `from: toIndex` stagger
+            stagger: (i: number) =>
+                staggerEase(Math.abs(offsetFromTarget(i)) / maxOffset) * maxOffset * this.config.stagger,
+            params: resolveTransitionParams(preset, this.config.transitionParams),
+            axis: this.axis,
+        });
+    } else {
+        // If snapping back to the same card, or cards don't push under reduced motion, just animate back to rest.
+        this.cardsTimeline = gsap.to(cardTransformers, {
+            ...orientVars(TRANSFORMER_REST, this.axis),
+            duration: this.motion.cardPush ? 0.6 : 0,
+            ease: 'power3.out',
+            overwrite: true,
+        });
+    }
+  }
+
+  public snapTo(index: number) {
+    if (!this.count || index < 0 || index >= this.count) return;
+    this.currentVirtualIndex = index;
+    gsap.set(this.carouselEl, this.trackVars(this.getTargetOffset(index)));
+  }
+
+  // Loop to apply layout transforms. Skips frames where nothing moved and hides cards outside the viewport.
+  private render = () => {
+    if (!this.carouselEl || !this.carouselEl.parentElement) return;
+
+    const currentOffset = this.getOffset();
+    if (!this.needsRender && currentOffset === this.lastRenderedOffset) return;
+    this.needsRender = false;
+    this.lastRenderedOffset = currentOffset;
+
+    const centerIndex = this.getClosestIndex(currentOffset);
+    if (centerIndex !== this.lastCenterIndex) {
+        this.lastCenterIndex = centerIndex;
+        this.events.emit('centerChange', { index: centerIndex });
+    }
+
+    // Reduced motion keeps cards flat whatever the layout.
+    const layoutFor = (name: LayoutName) => getLayout(this.motion.layoutTransforms ? name : 'linear');
+    const layout = layoutFor(this.config.layout);
+    const { from, progress } = this.layoutBlend;
+    const previousLayout = progress < 1 ? layoutFor(from) : null;
+
+    const geometry = this.getGeometry();
+    const { viewportSize, trackLength, cardSize, cardOffset } = geometry;
+    const viewportCenter = viewportSize / 2;
+    const isVertical = this.axis.main === 'y';
+
+    this.cards.forEach((card, i) => {
+        // Cards sit at their margin in the DOM; the slot for their index is applied as a transform.
+        const slot = getCardStart(geometry, this.cardIndices[i]) - cardOffset;
+        const cardCenter = currentOffset + cardOffset + slot + cardSize / 2;
+
+        // Recycle cards in loop mode: shift each one by whole laps so it sits nearest the center.
+        let wrap = 0;
+        if (this.config.loop && trackLength) {
+            wrap = -Math.round((cardCenter - viewportCenter) / trackLength) * trackLength;
+        }
+
+        const dist = cardCenter + wrap - viewportCenter;
+        const context = { norm: dist / viewportSize, distance: dist, viewportSize, viewportWidth: viewportSize, config: this.config };
+
+        // Layouts are written for a left-to-right row; orientVars turns the result for this track.
+        let transform = layout.getTransform(context);
+        if (previousLayout) {
+            transform = mixTransforms(previousLayout.getTransform(context), transform, progress);
+        }
+
+        // A full card length of slack covers rotation and scale overhang.
+        const offscreen = transform.opacity <= 0 || Math.abs(dist + transform.x) - cardSize > viewportCenter;
+        if (offscreen) {
+            if (!this.culled.has(card)) {
+                card.style.visibility = 'hidden';
+                this.culled.add(card);
+            }
+            return;
+        }
+        if (this.culled.has(card)) {
+            card.style.visibility = '';
+            this.culled.delete(card);
+        }
+
+        gsap.set(card, {
+            ...orientVars({
+                x: slot + wrap + transform.x,
+                y: transform.y,
+                rotation: transform.rotation,
+                rotationY: transform.rotationY,
+            }, this.axis),
+            z: transform.z,
+            scale: transform.scale,
+            opacity: transform.opacity,
+            zIndex: transform.zIndex,
+            transformOrigin: isVertical ? `${transform.originY}% 50%` : `50% ${transform.originY}%`,
+            transformPerspective: 1200,
+        });
+    });
+
+    if (this.events.hasListeners('tick')) {
+        this.events.emit('tick', { x: currentOffset, position: getTrackPosition(geometry, currentOffset, this.count, this.config.loop) });
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { CarouselAction, CarouselState } from '../types';
+import { wrapIndex } from './utils';
+
+export const initialCarouselState: CarouselState = {
+  count: 0,
+  currentIndex: 0,
+  fromIndex: 0,
+  status: 'idle',
+  steps: 0,
+};
+
+// Lazy initializer for useReducer: seeds the FSM with the item count and a clamped start index.
+export function initCarouselState({ count, index }: { count: number; index: number }): CarouselState {
+  const currentIndex = Math.min(Math.max(index, 0), Math.max(count - 1, 0));
+  return { ...initialCarouselState, count, currentIndex, fromIndex: currentIndex };
+}
+
+export function carouselReducer(state: CarouselState, action: CarouselAction): CarouselState {
+  switch (action.type) {
+    case 'NEXT': {
+      // A lone slide has nowhere to go; looping would spin the track a full lap back onto it.
+      if (state.count <= 1) return state;
+      const nextIndex = (state.currentIndex + 1) % state.count;
+      return { ...state, status: 'animating', fromIndex: state.currentIndex, currentIndex: nextIndex, steps: 1 };
+    }
+    case 'PREV': {
+      if (state.count <= 1) return state;
+      const prevIndex = (state.currentIndex - 1 + state.count) % state.count;
+      return { ...state, status: 'animating', fromIndex: state.currentIndex, currentIndex: prevIndex, steps: -1 };
+    }
+    case 'GOTO': {
+      if (state.currentIndex === action.payload) return state;
+      if (action.payload < 0 || action.payload >= state.count) return state;
+      return { ...state, status: 'animating', fromIndex: state.currentIndex, currentIndex: action.payload, steps: 0 };
+    }
+    case 'STEP': {
+      // Multi-slide move from a flick; may run past the ends, which wrap around.
+      if (state.count <= 1 || action.payload === 0) return state;
+      const stepIndex = wrapIndex(state.currentIndex + action.payload, state.count);
+      return { ...state, status: 'animating', fromIndex: state.currentIndex, currentIndex: stepIndex, steps: action.payload };
+    }
+    case 'INTERRUPT': {
+      const newIndex = action.payload;
+      return {
+        ...state,
+        status: 'idle',
+        currentIndex: newIndex,
+        fromIndex: newIndex,
+      };
+    }
+    case 'JUMP': {
+      if (state.currentIndex === action.payload) return state;
+      if (action.payload < 0 || action.payload >= state.count) return state;
+      return { ...state, status: 'idle', currentIndex: action.payload, fromIndex: action.payload, steps: 0 };
+    }
+    case 'ANIMATION_END':
+      return {
+        ...state,
+        status: 'idle',
+        fromIndex: state.currentIndex,
+      };
+    case 'SET_COUNT': {
+      // Items were added or removed: keep the current index inside the new bounds.
+      const count = action.payload;
+      const currentIndex = Math.min(state.currentIndex, Math.max(count - 1, 0));
+      return { ...state, count, currentIndex, fromIndex: currentIndex, status: 'idle' };
+    }
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,138 @@
+import { AnimationConfig } from '../types';
+import { defaultConfig } from '../constants';
+import { layouts } from './layouts';
+
+// Bump when a saved config needs rewriting to load correctly, and add the step to `migrations`.
+export const CONFIG_VERSION = 1;
+
+// Shape of exported JSON and of everything kept in storage.
+export interface ConfigFile {
+  version: number;
+  name?: string;
+  config: AnimationConfig;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid slideshow config: ${issues.join('; ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type FieldSchema =
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string'; options?: () => readonly string[] }
+  | { type: 'params' };
+
+const number = (min?: number, max?: number): FieldSchema => ({ type: 'number', min, max });
+// Counts of slides or cards, which index arrays.
+const integer = (min?: number, max?: number): FieldSchema => ({ type: 'number', min, max, integer: true });
+const boolean: FieldSchema = { type: 'boolean' };
+const string = (options?: () => readonly string[]): FieldSchema => ({ type: 'string', options });
+
+// One entry per AnimationConfig key, so adding a config field without a rule fails to compile.
+const schema: Record<keyof AnimationConfig, FieldSchema> = {
+  stagger: number(0),
+  layout: string(() => Object.keys(layouts)),
+  orientation: string(() => ['horizontal', 'vertical']),
+  direction: string(() => ['ltr', 'rtl']),
+  arcStrength: number(),
+  arcRotation: number(),
+  coverflowAngle: number(),
+  coverflowDepth: number(),
+  cylinderAngle: number(),
+  loop: boolean,
+  momentum: number(0),
+  edgeResistance: number(0, 1),
+  autoplay: boolean,
+  autoplayInterval: number(0.1),
+  autoplayDirection: string(() => ['forward', 'backward']),
+  pauseOnHover: boolean,
+  pauseOnFocus: boolean,
+  motion: string(() => ['auto', 'full', 'reduced']),
+  duration: number(0),
+  ease: string(),
+  virtualizeThreshold: integer(0),
+  virtualWindow: integer(1),
+  preloadRadius: integer(0),
+  transition: string(),
+  transitionParams: { type: 'params' },
+};
+
+// Each step upgrades a raw config from the version it is keyed by to the next one. Empty until the format first changes.
+const migrations: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkField(key: string, value: unknown, field: FieldSchema): string | null {
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${key} must be a number`;
+      if (field.integer && !Number.isInteger(value)) return `${key} must be a whole number`;
+      if (field.min !== undefined && value < field.min) return `${key} must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max) return `${key} must be at most ${field.max}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${key} must be true or false`;
+    case 'string': {
+      if (typeof value !== 'string') return `${key} must be a string`;
+      const options = field.options?.();
+      return !options || options.includes(value) ? null : `${key} must be one of ${options.join(', ')}`;
+    }
+    case 'params': {
+      const valid = isRecord(value) && Object.values(value).every(params =>
+        isRecord(params) && Object.values(params).every(v => typeof v === 'number' && Number.isFinite(v)));
+      return valid ? null : `${key} must map preset names to numeric parameters`;
+    }
+  }
+}
+
+// Checks a current-version config. Missing keys take their defaults and unknown keys are dropped.
+export function validateConfig(raw: unknown): AnimationConfig {
+  if (!isRecord(raw)) throw new ConfigValidationError(['config must be an object']);
+  const issues: string[] = [];
+  const config: Record<string, unknown> = { ...defaultConfig };
+  (Object.keys(schema) as (keyof AnimationConfig)[]).forEach(key => {
+    if (raw[key] === undefined) return;
+    const issue = checkField(key, raw[key], schema[key]);
+    if (issue) issues.push(issue);
+    else config[key] = raw[key];
+  });
+  if (issues.length) throw new ConfigValidationError(issues);
+  return config as unknown as AnimationConfig;
+}
+
+// Accepts a ConfigFile of any known version, or a bare config object (read as version 1), and returns a current config.
+export function parseConfigFile(raw: unknown): AnimationConfig {
+  if (!isRecord(raw)) throw new ConfigValidationError(['expected a JSON object']);
+  const isFile = isRecord(raw.config);
+  const version = isFile ? raw.version ?? 1 : 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ConfigValidationError(['version must be a positive integer']);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigValidationError([`version ${version} is newer than this slideshow supports (${CONFIG_VERSION})`]);
+  }
+  let config = (isFile ? raw.config : raw) as Record<string, unknown>;
+  for (let v = version; v < CONFIG_VERSION; v++) {
+    config = migrations[v]?.(config) ?? config;
+  }
+  return validateConfig(config);
+}
+
+export function parseConfigJson(json: string): AnimationConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ConfigValidationError(['not valid JSON']);
+  }
+  return parseConfigFile(raw);
+}
+
+export function serializeConfig(config: AnimationConfig, name?: string): string {
+  const file: ConfigFile = { version: CONFIG_VERSION, name, config };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,70 @@
+import { Slide } from '../types';
+
+export interface HistorySyncOptions {
+  // Where the slide lives in the URL: `#slide=3` or `?slide=3`.
+  location?: 'hash' | 'query';
+  // Parameter name, 'slide' by default.
+  param?: string;
+  // 'index' writes the zero-based position; 'slug' writes `<id>-<title>`, which survives reordering.
+  format?: 'index' | 'slug';
+  // 'push' adds a history entry per slide so back/forward step through them; 'replace' keeps one entry.
+  method?: 'push' | 'replace';
+}
+
+export const defaultHistorySyncOptions: Required<HistorySyncOptions> = {
+  location: 'hash',
+  param: 'slide',
+  format: 'index',
+  method: 'replace',
+};
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export function getSlideSlug(slide: Slide): string {
+  const slug = slugify(slide.title);
+  return slug ? `${slide.id}-${slug}` : String(slide.id);
+}
+
+const getParams = (url: URL, location: HistorySyncOptions['location']) =>
+  new URLSearchParams(location === 'hash' ? url.hash.slice(1) : url.search);
+
+// Value the URL holds for the slide parameter, or null when absent.
+export function readSlideParam(href: string, options: Required<HistorySyncOptions>): string | null {
+  return getParams(new URL(href), options.location).get(options.param);
+}
+
+// `href` with the slide parameter set to `value`, leaving every other parameter as it was.
+export function writeSlideParam(href: string, value: string, options: Required<HistorySyncOptions>): string {
+  const url = new URL(href);
+  const params = getParams(url, options.location);
+  params.set(options.param, value);
+  if (options.location === 'hash') url.hash = params.toString();
+  else url.search = params.toString();
+  return url.toString();
+}
+
+export function formatSlideParam(slides: Slide[], index: number, options: Required<HistorySyncOptions>): string {
+  return options.format === 'slug' && slides[index] ? getSlideSlug(slides[index]) : String(index);
+}
+
+// Index a URL value points at, or null when it matches no slide. Slugs match on id so renamed titles still resolve.
+export function parseSlideParam(slides: Slide[], value: string | null, options: Required<HistorySyncOptions>): number | null {
+  if (value === null || value === '') return null;
+  if (options.format === 'slug') {
+    const id = value.match(/^-?\d+/)?.[0];
+    const index = slides.findIndex(slide => (id !== undefined ? String(slide.id) === id : getSlideSlug(slide) === value));
+    return index === -1 ? null : index;
+  }
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 && index < slides.length ? index : null;
+}
+
+export function readSlideIndex(slides: Slide[], options: Required<HistorySyncOptions>): number | null {
+  return parseSlideParam(slides, readSlideParam(window.location.href, options), options);
+}
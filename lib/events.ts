@@ -0,0 +1,67 @@
+import { LayoutName } from '../types';
+
+// Everything the slideshow reports. Indices are slide indices, never virtual ones.
+export interface CarouselEvents {
+  // A press landed on the track.
+  dragStart: { index: number };
+  // `progress` is how far the track has been dragged, in slides; positive means towards the next slides.
+  // `deltaX` is the pointer travel in px along the track, negative towards the next slides in every orientation.
+  dragMove: { deltaX: number; progress: number };
+  // A transition is about to run.
+  beforeChange: { from: number; to: number };
+  // The current index changed, whether by a transition, an interrupt, the item count shrinking or a deep link adopted on mount.
+  change: { index: number; previousIndex: number };
+  // A transition finished: the track has landed on `index` and the header and background have caught up.
+  afterChange: { index: number };
+  // A press stopped a running transition; `index` is the slide the track settled on.
+  interrupt: { index: number };
+  layoutChange: { layout: LayoutName; previousLayout: LayoutName };
+  // The slide nearest the center changed while the track moved.
+  centerChange: { index: number };
+  // A frame the render loop drew; `position` is the fractional slide index at the center and `x` the track's
+  // offset along its axis, measured as if it ran left to right.
+  tick: { x: number; position: number };
+}
+
+export type EventListener<P> = (payload: P) => void;
+
+// Small typed emitter. A throwing listener never stops the others or the render loop; its error is rethrown
+// from a microtask so it still reaches window.onerror and the console like any uncaught error.
+export class Emitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+  // Returns the matching unsubscribe.
+  public on = <K extends keyof Events>(type: K, listener: EventListener<Events[K]>) => {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => this.off(type, listener);
+  };
+
+  public off = <K extends keyof Events>(type: K, listener: EventListener<Events[K]>) => {
+    this.listeners.get(type)?.delete(listener);
+  };
+
+  public emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    this.listeners.get(type)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    });
+  }
+
+  public hasListeners(type: keyof Events): boolean {
+    return !!this.listeners.get(type)?.size;
+  }
+
+  public clear() {
+    this.listeners.clear();
+  }
+}
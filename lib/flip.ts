@@ -0,0 +1,36 @@
+import { gsap } from 'gsap';
+
+// On-screen frame of a card: its center, untransformed size times scale, and the rotations applied by the layout.
+export interface CardFrame {
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  rotation: number;
+  rotationX: number;
+  rotationY: number;
+}
+
+// Measures a `.carousel-card` including the layout transform on the card and the push on its `.card-transformer`.
+export function measureCardFrame(card: HTMLElement): CardFrame {
+  const transformer = card.querySelector<HTMLElement>('.card-transformer') ?? card;
+  const rect = transformer.getBoundingClientRect();
+  const scale = (gsap.getProperty(card, 'scale') as number) * (gsap.getProperty(transformer, 'scale') as number);
+  return {
+    centerX: rect.left + rect.width / 2,
+    centerY: rect.top + rect.height / 2,
+    width: transformer.offsetWidth * scale,
+    height: transformer.offsetHeight * scale,
+    rotation: gsap.getProperty(card, 'rotation') as number,
+    // Vertical tracks tilt cards about x instead of y.
+    rotationX: (gsap.getProperty(card, 'rotationX') as number) + (gsap.getProperty(transformer, 'rotationX') as number),
+    rotationY: (gsap.getProperty(card, 'rotationY') as number) + (gsap.getProperty(transformer, 'rotationY') as number),
+  };
+}
+
+// Largest box with `aspectRatio` (width / height) that fits in `maxWidth` x `maxHeight`; fills it when the ratio is unknown.
+export function fitContain(aspectRatio: number | null, maxWidth: number, maxHeight: number) {
+  if (!aspectRatio) return { width: maxWidth, height: maxHeight };
+  const width = Math.min(maxWidth, maxHeight * aspectRatio);
+  return { width, height: width / aspectRatio };
+}
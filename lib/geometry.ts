@@ -0,0 +1,89 @@
+import type { gsap } from 'gsap';
+import { Orientation, ReadingDirection } from '../types';
+
+// Pure track math shared by CarouselAnimation and the tests. Positions are logical offsets along the track's axis,
+// growing in the direction later slides sit; TrackAxis maps them onto screen x or y.
+
+// Layout measurements cached between resizes so the render loop never reads the DOM.
+// Cards are uniform, so every position is derived from the slide index rather than offsetLeft.
+export interface TrackGeometry {
+  // Size of the viewport along the track's axis.
+  viewportSize: number;
+  // Leading margin of a card, i.e. where slide 0 starts on the track.
+  cardOffset: number;
+  cardSize: number;
+  // Distance between the leading edges of neighbouring cards, margins included.
+  pitch: number;
+  // Length of one full lap of cards.
+  trackLength: number;
+}
+
+// How logical track offsets map onto the screen.
+export interface TrackAxis {
+  // Transform property that moves along the track.
+  main: 'x' | 'y';
+  // -1 when later slides sit left of earlier ones (RTL).
+  sign: 1 | -1;
+}
+
+export function getTrackAxis(orientation: Orientation, direction: ReadingDirection): TrackAxis {
+  if (orientation === 'vertical') return { main: 'y', sign: 1 };
+  return { main: 'x', sign: direction === 'rtl' ? -1 : 1 };
+}
+
+// Screen property and sign for each property written for a horizontal left-to-right track.
+// A vertical track mirrors that frame across the diagonal, which also reverses rotations.
+const ORIENTED_PROPS: Record<TrackAxis['main'], Record<string, [string, number]>> = {
+  x: { x: ['x', 1], y: ['y', 1], rotation: ['rotation', 1], rotationY: ['rotationY', 1], rotationX: ['rotationX', 1] },
+  y: { x: ['y', 1], y: ['x', 1], rotation: ['rotation', -1], rotationY: ['rotationX', -1], rotationX: ['rotationY', -1] },
+};
+// Properties that flip with the reading direction.
+const MIRRORED_PROPS = new Set(['x', 'rotation', 'rotationY']);
+
+// Function-based value as GSAP calls it, once per target.
+type FunctionBasedValue = (i: number, target: unknown) => number;
+
+// Rewrites GSAP vars written for a horizontal left-to-right track for `axis`. Function-based values are wrapped,
+// and everything else (durations, eases, scale...) passes through.
+export function orientVars(vars: gsap.TweenVars, axis: TrackAxis): gsap.TweenVars {
+  const oriented: gsap.TweenVars = {};
+  for (const [key, value] of Object.entries(vars)) {
+    const mapping = ORIENTED_PROPS[axis.main][key];
+    if (!mapping) {
+      oriented[key] = value;
+      continue;
+    }
+    const [property, orientationSign] = mapping;
+    const sign = orientationSign * (axis.main === 'x' && MIRRORED_PROPS.has(key) ? axis.sign : 1);
+    if (typeof value === 'function') {
+      const valueAt = value as FunctionBasedValue;
+      oriented[property] = (i: number, target: unknown) => sign * valueAt(i, target);
+    } else {
+      oriented[property] = typeof value === 'number' ? sign * value : value;
+    }
+  }
+  return oriented;
+}
+
+// Leading edge of a slide on the untransformed track.
+export const getCardStart = (geometry: TrackGeometry, index: number) => geometry.cardOffset + index * geometry.pitch;
+
+// Track offset that centers `index`. Virtual indices outside 0..count-1 are whole laps away in loop mode.
+export function getTargetOffset(geometry: TrackGeometry, index: number, count: number, loop: boolean): number {
+  if (!count) return 0;
+  if (!loop && (index < 0 || index >= count)) return 0;
+  return (geometry.viewportSize / 2) - getCardStart(geometry, index) - (geometry.cardSize / 2);
+}
+
+// Fractional index centered at a track offset; the inverse of getTargetOffset.
+export function getTrackPosition(geometry: TrackGeometry, offset: number, count: number, loop: boolean): number {
+  if (!geometry.pitch) return 0;
+  return (getTargetOffset(geometry, 0, count, loop) - offset) / geometry.pitch;
+}
+
+// Virtual index nearest the center at a track offset, clamped to real slides unless looping.
+export function getClosestVirtualIndex(geometry: TrackGeometry, offset: number, count: number, loop: boolean): number {
+  if (!count || !geometry.pitch) return 0;
+  const closestIndex = Math.round(getTrackPosition(geometry, offset, count, loop));
+  return loop ? closestIndex : Math.min(Math.max(closestIndex, 0), count - 1);
+}
@@ -0,0 +1,80 @@
+// Pointer samples older than this are ignored when estimating release velocity.
+const VELOCITY_WINDOW_MS = 100;
+// Deceleration of a thrown track, in px/ms².
+const THROW_DECELERATION = 0.0025;
+// A press that moves less than this and lifts within TAP_MAX_MS counts as a tap rather than a drag.
+const TAP_SLOP_PX = 8;
+const TAP_MAX_MS = 300;
+// Share of a card's length a slow drag must cover to change slides.
+const SWIPE_THRESHOLD = 1 / 5;
+
+interface PointerSample {
+  x: number;
+  time: number;
+}
+
+// Tracks recent pointer positions along the track so a drag release can be turned into a throw.
+export class VelocityTracker {
+  private samples: PointerSample[] = [];
+
+  public reset(x: number, time: number = performance.now()) {
+    this.samples = [{ x, time }];
+  }
+
+  public add(x: number, time: number = performance.now()) {
+    this.samples.push({ x, time });
+    while (this.samples.length > 2 && time - this.samples[0].time > VELOCITY_WINDOW_MS) {
+      this.samples.shift();
+    }
+  }
+
+  // Velocity in px/ms over the sample window; 0 if the pointer paused before release.
+  public getVelocity(time: number = performance.now()): number {
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    if (!first || !last || last === first) return 0;
+    if (time - last.time > VELOCITY_WINDOW_MS) return 0;
+    const elapsed = last.time - first.time;
+    return elapsed > 0 ? (last.x - first.x) / elapsed : 0;
+  }
+}
+
+// Distance a throw at `velocity` (px/ms) travels before friction stops it, scaled by `strength`.
+export const projectMomentum = (velocity: number, strength: number) =>
+  (velocity * Math.abs(velocity) / (2 * THROW_DECELERATION)) * strength;
+
+// iOS-style rubber band: the further past the edge, the less the track follows the pointer.
+export const rubberBand = (overflow: number, dimension: number, resistance: number) => {
+  if (!dimension || resistance <= 0) return overflow;
+  const coefficient = 1 - Math.min(resistance, 0.99);
+  return (1 - 1 / ((Math.abs(overflow) * coefficient / dimension) + 1)) * dimension * Math.sign(overflow);
+};
+
+export const isTap = (deltaX: number, deltaY: number, duration: number) =>
+  Math.hypot(deltaX, deltaY) < TAP_SLOP_PX && duration < TAP_MAX_MS;
+
+export interface SwipeRelease {
+  // Virtual index centered when the drag started, and where the projected throw would stop.
+  startIndex: number;
+  projectedIndex: number;
+  // Pointer travel in px along the track; negative is towards the next slides.
+  delta: number;
+  // Card length along the track.
+  cardSize: number;
+  currentIndex: number;
+  count: number;
+  loop: boolean;
+}
+
+// Signed number of slides a drag release moves: where the throw lands, or one slide for a slow drag past
+// the threshold. Without looping a flick stops at the first or last card instead of wrapping.
+export function resolveSwipeSteps({ startIndex, projectedIndex, delta, cardSize, currentIndex, count, loop }: SwipeRelease): number {
+  let steps = projectedIndex - startIndex;
+  if (steps === 0 && Math.abs(delta) > cardSize * SWIPE_THRESHOLD) {
+    steps = delta < 0 ? 1 : -1;
+  }
+  if (!loop) {
+    steps = Math.min(Math.max(currentIndex + steps, 0), count - 1) - currentIndex;
+  }
+  return steps;
+}
@@ -0,0 +1,39 @@
+import { CarouselAction } from '../types';
+import { TrackAxis, getTrackAxis } from './geometry';
+
+// Slides skipped by PageUp / PageDown.
+export const KEYBOARD_PAGE_SIZE = 5;
+
+// Arrow keys that step back and forward along each kind of track.
+const arrowKeys = ({ main, sign }: TrackAxis) => {
+  if (main === 'y') return { prev: 'ArrowUp', next: 'ArrowDown' };
+  return sign > 0 ? { prev: 'ArrowLeft', next: 'ArrowRight' } : { prev: 'ArrowRight', next: 'ArrowLeft' };
+};
+
+// Maps a key press to the FSM action it triggers, or null when the key isn't a carousel shortcut.
+// Arrows follow the track: up/down when vertical, and mirrored when right-to-left.
+export function getKeyboardAction(
+  key: string,
+  currentIndex: number,
+  count: number,
+  axis: TrackAxis = getTrackAxis('horizontal', 'ltr'),
+): CarouselAction | null {
+  if (count === 0) return null;
+  const arrows = arrowKeys(axis);
+  switch (key) {
+    case arrows.prev:
+      return { type: 'PREV' };
+    case arrows.next:
+      return { type: 'NEXT' };
+    case 'Home':
+      return { type: 'GOTO', payload: 0 };
+    case 'End':
+      return { type: 'GOTO', payload: count - 1 };
+    case 'PageUp':
+      return { type: 'GOTO', payload: Math.max(currentIndex - KEYBOARD_PAGE_SIZE, 0) };
+    case 'PageDown':
+      return { type: 'GOTO', payload: Math.min(currentIndex + KEYBOARD_PAGE_SIZE, count - 1) };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,130 @@
+import { gsap } from 'gsap';
+import { AnimationConfig, LayoutName } from '../types';
+
+// Transform applied to a `.carousel-card` on top of its place in the row. Layouts always describe a horizontal
+// left-to-right track; the controller turns the result for vertical and right-to-left tracks.
+export interface CardTransform {
+  x: number;
+  y: number;
+  rotation: number;
+  rotationY: number;
+  scale: number;
+  z: number;
+  opacity: number;
+  zIndex: number;
+  // Vertical pivot in percent of the card height.
+  originY: number;
+}
+
+export interface LayoutContext {
+  // Normalized distance: 0 at center, +/- 1 at screen edges
+  norm: number;
+  // Distance in px from the card center to the viewport center.
+  distance: number;
+  // Size of the viewport along the track.
+  viewportSize: number;
+  /** @deprecated Same as `viewportSize`, which also covers vertical tracks. */
+  viewportWidth: number;
+  config: AnimationConfig;
+}
+
+export interface TrackLayout {
+  name: LayoutName;
+  label: string;
+  getTransform: (context: LayoutContext) => CardTransform;
+}
+
+const REST: CardTransform = { x: 0, y: 0, rotation: 0, rotationY: 0, scale: 1, z: 0, opacity: 1, zIndex: 0, originY: 50 };
+
+const linear: TrackLayout = {
+  name: 'linear',
+  label: 'Linear',
+  getTransform: () => REST,
+};
+
+const arc: TrackLayout = {
+  name: 'arc',
+  label: 'Arc',
+  getTransform: ({ norm, config }) => ({
+    ...REST,
+    // Y goes positive (down) as we move away from center -> Hill shape
+    y: Math.pow(Math.abs(norm), 2) * config.arcStrength,
+    rotation: norm * config.arcRotation,
+    scale: 1 - Math.abs(norm) * 0.15,
+    originY: 100, // Pivot from bottom for arc effect
+  }),
+};
+
+const coverflow: TrackLayout = {
+  name: 'coverflow',
+  label: 'Coverflow',
+  getTransform: ({ norm, config }) => {
+    // Cards reach their full turn a quarter of the screen away from center.
+    const turn = gsap.utils.clamp(-1, 1, norm * 4);
+    return {
+      ...REST,
+      rotationY: turn * config.coverflowAngle,
+      z: -Math.abs(turn) * config.coverflowDepth,
+      zIndex: Math.round(100 - Math.abs(norm) * 100),
+    };
+  },
+};
+
+const cylinder: TrackLayout = {
+  name: 'cylinder',
+  label: 'Cylinder',
+  getTransform: ({ norm, distance, viewportSize, config }) => {
+    // Wrap the row around a drum: the distance along the row becomes arc length.
+    const angle = norm * config.cylinderAngle * Math.PI / 180;
+    const radius = angle ? distance / angle : viewportSize;
+    const facing = Math.cos(angle);
+    return {
+      ...REST,
+      x: radius * Math.sin(angle) - distance,
+      z: -radius * (1 - facing),
+      rotationY: angle * 180 / Math.PI,
+      opacity: facing > 0 ? 1 : Math.max(0, 1 + facing * 3),
+      zIndex: Math.round(100 + facing * 100),
+    };
+  },
+};
+
+const stack: TrackLayout = {
+  name: 'stack',
+  label: 'Stacked Deck',
+  getTransform: ({ norm, distance }) => {
+    // Pull every card back under the center one, leaving a small peek on either side.
+    const depth = Math.min(Math.abs(norm), 1);
+    const peek = Math.sign(distance) * Math.min(Math.abs(distance) * 0.08, 48);
+    return {
+      ...REST,
+      x: peek - distance,
+      y: depth * 40,
+      scale: 1 - depth * 0.15,
+      opacity: Math.abs(norm) > 1.2 ? 0 : 1,
+      zIndex: Math.round(100 - Math.abs(norm) * 100),
+    };
+  },
+};
+
+export const layouts: Record<LayoutName, TrackLayout> = { linear, arc, coverflow, cylinder, stack };
+
+export function getLayout(name: LayoutName): TrackLayout {
+  return layouts[name] ?? linear;
+}
+
+// Interpolates between two layouts' transforms while the layout mode changes.
+export function mixTransforms(from: CardTransform, to: CardTransform, progress: number): CardTransform {
+  const mix = (a: number, b: number) => a + (b - a) * progress;
+  return {
+    x: mix(from.x, to.x),
+    y: mix(from.y, to.y),
+    rotation: mix(from.rotation, to.rotation),
+    rotationY: mix(from.rotationY, to.rotationY),
+    scale: mix(from.scale, to.scale),
+    z: mix(from.z, to.z),
+    opacity: mix(from.opacity, to.opacity),
+    zIndex: progress < 0.5 ? from.zIndex : to.zIndex,
+    originY: mix(from.originY, to.originY),
+  };
+}
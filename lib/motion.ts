@@ -0,0 +1,62 @@
+import { AnimationConfig } from '../types';
+
+// Durations (seconds) and switches for every tween the slideshow runs.
+export interface MotionProfile {
+  name: 'full' | 'reduced';
+  trackDuration: number;
+  trackEase: string;
+  // Staggered push-and-settle of the cards around the destination.
+  cardPush: boolean;
+  // Arc curve, rotation and scale applied by the render loop.
+  layoutTransforms: boolean;
+  // Header text slides vertically; otherwise it only fades.
+  textSlide: boolean;
+  textOutDuration: number;
+  textInDuration: number;
+  backgroundDelay: number;
+  backgroundDuration: number;
+  // Video slides start playing on their own when centered.
+  videoAutoplay: boolean;
+  // Lightbox open/close flight from the card; zoom steps take a fraction of it.
+  lightboxDuration: number;
+}
+
+export const fullMotion: MotionProfile = {
+  name: 'full',
+  trackDuration: 1.5,
+  trackEase: 'power4.inOut',
+  cardPush: true,
+  layoutTransforms: true,
+  textSlide: true,
+  textOutDuration: 0.5,
+  textInDuration: 0.8,
+  backgroundDelay: 0.1,
+  backgroundDuration: 1.2,
+  videoAutoplay: true,
+  lightboxDuration: 0.6,
+};
+
+// Instant track snaps and short crossfades for users who ask the OS for less motion.
+export const reducedMotion: MotionProfile = {
+  name: 'reduced',
+  trackDuration: 0,
+  trackEase: 'none',
+  cardPush: false,
+  layoutTransforms: false,
+  textSlide: false,
+  textOutDuration: 0.15,
+  textInDuration: 0.3,
+  backgroundDelay: 0,
+  backgroundDuration: 0.3,
+  videoAutoplay: false,
+  lightboxDuration: 0,
+};
+
+export function resolveMotionProfile(
+  { motion, duration, ease }: Pick<AnimationConfig, 'motion' | 'duration' | 'ease'>,
+  prefersReducedMotion: boolean
+): MotionProfile {
+  if (motion === 'reduced' || (motion === 'auto' && prefersReducedMotion)) return reducedMotion;
+  // Track timing is tunable; reduced motion always snaps.
+  return { ...fullMotion, trackDuration: duration, trackEase: ease };
+}
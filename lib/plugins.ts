@@ -0,0 +1,19 @@
+import { CarouselEvents, EventListener } from './events';
+
+// What a plugin gets to work with: the slideshow's events and the same controls as its ref handle.
+export interface CarouselPluginContext {
+  // The carousel's <section> element.
+  root: HTMLElement;
+  on: <K extends keyof CarouselEvents>(type: K, listener: EventListener<CarouselEvents[K]>) => () => void;
+  getIndex: () => number;
+  next: () => void;
+  prev: () => void;
+  goTo: (index: number) => void;
+}
+
+export interface CarouselPlugin {
+  // Identifies the plugin; the slideshow re-runs setup only when the set of names changes.
+  name: string;
+  // Runs after mount; the returned function runs on unmount. Listeners added through `on` are removed automatically.
+  setup: (context: CarouselPluginContext) => void | (() => void);
+}
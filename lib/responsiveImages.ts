@@ -0,0 +1,107 @@
+import { CarouselImage, FocalPoint, ImageCrop, ImageSource } from '../types';
+
+// Rendered card width per breakpoint; keep in sync with the card's w-[70vw] md:w-[50vw] lg:w-[35vw].
+export const CARD_SIZES = '(min-width: 1024px) 35vw, (min-width: 768px) 50vw, 70vw';
+
+// Formats in order of preference when several are offered.
+const FORMAT_PREFERENCE = ['image/avif', 'image/webp'];
+
+const formatSupport = new Map<string, boolean>([['image/jpeg', true], ['image/png', true]]);
+
+// AVIF and WebP support can only be probed asynchronously; until a probe finishes the format is skipped.
+const probeFormat = (type: string, dataUri: string) => {
+  const img = new Image();
+  img.onload = () => formatSupport.set(type, img.width > 0);
+  img.onerror = () => formatSupport.set(type, false);
+  img.src = dataUri;
+};
+if (typeof Image !== 'undefined') {
+  probeFormat('image/webp', 'data:image/webp;base64,UklGRiIAAABXRUJQVlA4IBYAAAAwAQCdASoBAAEADsD+JaQAA3AAAAAA');
+  probeFormat('image/avif', 'data:image/avif;base64,AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A=');
+}
+
+const isSupported = (type?: string) => !type || formatSupport.get(type) === true;
+
+export interface TemplateOptions {
+  width: number;
+  height?: number;
+  format?: string;
+  quality?: number;
+}
+
+// Fills `{width}`, `{height}`, `{format}` and `{quality}` placeholders in a CDN URL template.
+export function expandTemplate(template: string, { width, height = width, format = '', quality = 80 }: TemplateOptions): string {
+  return template
+    .replace(/\{width\}/g, String(width))
+    .replace(/\{height\}/g, String(height))
+    .replace(/\{format\}/g, format)
+    .replace(/\{quality\}/g, String(quality));
+}
+
+// One source per width from a URL template, e.g. templateSources('https://cdn/x.jpg?w={width}', [400, 800]).
+export function templateSources(
+  template: string,
+  widths: number[],
+  { type, format, aspectRatio = 1 }: { type?: string; format?: string; aspectRatio?: number } = {}
+): ImageSource[] {
+  return widths.map(width => ({
+    url: expandTemplate(template, { width, height: Math.round(width * aspectRatio), format }),
+    width,
+    type,
+  }));
+}
+
+export interface SourceSet {
+  type?: string;
+  srcSet: string;
+}
+
+// Groups sources by format into `srcset` strings, preferred formats first so <picture> tries them first.
+export function buildSourceSets(sources: ImageSource[]): SourceSet[] {
+  const byType = new Map<string | undefined, ImageSource[]>();
+  sources.forEach(source => {
+    byType.set(source.type, [...(byType.get(source.type) ?? []), source]);
+  });
+  const rank = (type?: string) => {
+    const index = type ? FORMAT_PREFERENCE.indexOf(type) : -1;
+    return index === -1 ? FORMAT_PREFERENCE.length : index;
+  };
+  return [...byType.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([type, group]) => ({
+      type,
+      srcSet: [...group].sort((a, b) => a.width - b.width).map(source => `${source.url} ${source.width}w`).join(', '),
+    }));
+}
+
+// First crop whose media query matches the current viewport.
+export function getActiveCrop(crops?: ImageCrop[]): ImageCrop | undefined {
+  return crops?.find(crop => window.matchMedia(crop.media).matches);
+}
+
+export function getFocalPoint(image: CarouselImage, crop?: ImageCrop): FocalPoint | undefined {
+  return crop?.focalPoint ?? image.focalPoint;
+}
+
+export const toObjectPosition = (focalPoint?: FocalPoint) =>
+  focalPoint ? `${focalPoint.x * 100}% ${focalPoint.y * 100}%` : undefined;
+
+// Picks the URL the browser would most likely choose for `cssWidth` CSS pixels, for preloading and backgrounds.
+export function pickImageUrl(image: CarouselImage, cssWidth: number, crop: ImageCrop | undefined = getActiveCrop(image.crops)): string {
+  const candidates = (crop?.sources ?? image.sources ?? []).filter(source => isSupported(source.type));
+  if (!candidates.length) return image.url;
+
+  const preferredType = FORMAT_PREFERENCE.find(type => candidates.some(source => source.type === type));
+  const ofType = candidates.filter(source => source.type === preferredType);
+  const pool = (ofType.length ? ofType : candidates).sort((a, b) => a.width - b.width);
+  const targetWidth = cssWidth * (window.devicePixelRatio || 1);
+  return (pool.find(source => source.width >= targetWidth) ?? pool[pool.length - 1]).url;
+}
+
+// Current card width in CSS pixels, mirroring CARD_SIZES.
+export function estimateCardWidth(): number {
+  const viewportWidth = window.innerWidth;
+  if (viewportWidth >= 1024) return viewportWidth * 0.35;
+  if (viewportWidth >= 768) return viewportWidth * 0.5;
+  return viewportWidth * 0.7;
+}
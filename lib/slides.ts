@@ -0,0 +1,17 @@
+import { Slide } from '../types';
+import { pickImageUrl } from './responsiveImages';
+
+// Image a slide contributes to preloading and the blurred background, if it has one.
+export function getSlideImageUrl(slide: Slide, cssWidth: number): string | undefined {
+  switch (slide.kind) {
+    case 'video':
+      return slide.poster;
+    case 'custom':
+      return slide.background;
+    default:
+      return pickImageUrl(slide, cssWidth);
+  }
+}
+
+// Text announced by the live region.
+export const getSlideLabel = (slide: Slide) => (slide.author ? `${slide.title} by ${slide.author}` : slide.title);
@@ -0,0 +1,170 @@
+// Card-level effects played by CarouselAnimation.goTo while the track slides to a new card.
+import { gsap } from 'gsap';
+import { TrackAxis, orientVars } from './geometry';
+
+export interface TransitionParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface TransitionContext {
+  fromIndex: number;
+  toIndex: number;
+  // The `.card-transformer` of every card, in slide order.
+  cardTransformers: HTMLElement[];
+  // Signed position of card `i` relative to the destination (negative = before it).
+  offsetFromTarget: (i: number) => number;
+  // Stagger delays radiating out from the destination card.
+  stagger: (i: number) => number;
+  params: Record<string, number>;
+  // Orientation and direction of the track. Write movement for a left-to-right row and pass it through
+  // `orientVars(vars, axis)` so it follows vertical and right-to-left tracks.
+  axis: TrackAxis;
+}
+
+export interface TransitionPreset {
+  name: string;
+  label: string;
+  params: TransitionParam[];
+  // Returns the tween or timeline so the controller can kill it on interrupt.
+  play: (context: TransitionContext) => gsap.core.Animation;
+}
+
+// Every property a preset may animate, at rest, for a left-to-right row. Presets must end here.
+export const TRANSFORMER_REST = { x: 0, scale: 1, rotationY: 0, opacity: 1 };
+
+const pushDirection = (offset: number) => (offset < 0 ? -1 : offset > 0 ? 1 : 0);
+
+const lagPush: TransitionPreset = {
+  name: 'lag-push',
+  label: 'Lag Push',
+  params: [
+    { key: 'pushAmount', label: 'Push Amount', min: 0, max: 150, step: 1, default: 40 },
+    { key: 'pushDuration', label: 'Push Duration', min: 0.1, max: 2, step: 0.05, default: 0.6 },
+    { key: 'settleDuration', label: 'Settle Duration', min: 0.1, max: 3, step: 0.05, default: 1.0 },
+  ],
+  play: ({ cardTransformers, offsetFromTarget, stagger, params, axis }) =>
+    gsap.to(cardTransformers, {
+      keyframes: [
+        orientVars({
+          // "Push away" from the target card; the target card is the source of the "push"
+          x: (i: number) => pushDirection(offsetFromTarget(i)) * params.pushAmount,
+          duration: params.pushDuration,
+          ease: 'power3.out'
+        }, axis),
+        orientVars({
+          // "Settle" back to rest
+          x: 0,
+          duration: params.settleDuration,
+          ease: 'power4.out'
+        }, axis)
+      ],
+      stagger,
+      overwrite: true,
+    }),
+};
+
+const elasticSpring: TransitionPreset = {
+  name: 'elastic',
+  label: 'Elastic Spring',
+  params: [
+    { key: 'pushAmount', label: 'Push Amount', min: 0, max: 150, step: 1, default: 60 },
+    { key: 'amplitude', label: 'Amplitude', min: 1, max: 3, step: 0.1, default: 1 },
+    { key: 'period', label: 'Period', min: 0.1, max: 1, step: 0.05, default: 0.35 },
+  ],
+  play: ({ cardTransformers, offsetFromTarget, stagger, params, axis }) =>
+    gsap.to(cardTransformers, {
+      keyframes: [
+        orientVars({ x: (i: number) => pushDirection(offsetFromTarget(i)) * params.pushAmount, duration: 0.35, ease: 'power2.out' }, axis),
+        orientVars({ x: 0, duration: 1.4, ease: `elastic.out(${params.amplitude}, ${params.period})` }, axis)
+      ],
+      stagger,
+      overwrite: true,
+    }),
+};
+
+const depthRipple: TransitionPreset = {
+  name: 'ripple',
+  label: 'Depth Ripple',
+  params: [
+    { key: 'depth', label: 'Depth', min: 0, max: 0.5, step: 0.01, default: 0.12 },
+    { key: 'duration', label: 'Duration', min: 0.2, max: 3, step: 0.05, default: 1.2 },
+  ],
+  play: ({ cardTransformers, offsetFromTarget, stagger, params }) =>
+    gsap.to(cardTransformers, {
+      keyframes: [
+        // Neighbours sink further back than the destination card
+        { scale: (i: number) => 1 - params.depth * Math.min(Math.abs(offsetFromTarget(i)) + 1, 3) / 3, duration: params.duration * 0.4, ease: 'power2.out' },
+        { scale: 1, duration: params.duration * 0.6, ease: 'power3.out' }
+      ],
+      stagger,
+      overwrite: true,
+    }),
+};
+
+const rotateFan: TransitionPreset = {
+  name: 'fan',
+  label: '3D Fan',
+  params: [
+    { key: 'angle', label: 'Angle', min: 0, max: 80, step: 1, default: 35 },
+    { key: 'perspective', label: 'Perspective', min: 200, max: 2000, step: 50, default: 1000 },
+    { key: 'duration', label: 'Duration', min: 0.2, max: 3, step: 0.05, default: 1.4 },
+  ],
+  play: ({ cardTransformers, offsetFromTarget, stagger, params, axis }) =>
+    gsap.to(cardTransformers, {
+      keyframes: [
+        // Cards swing open away from the destination like pages of a fan
+        orientVars({ rotationY: (i: number) => -pushDirection(offsetFromTarget(i)) * params.angle, duration: params.duration * 0.4, ease: 'power2.out' }, axis),
+        orientVars({ rotationY: 0, duration: params.duration * 0.6, ease: 'power3.inOut' }, axis)
+      ],
+      transformPerspective: params.perspective,
+      stagger,
+      overwrite: true,
+    }),
+};
+
+const crossfade: TransitionPreset = {
+  name: 'fade',
+  label: 'Fade',
+  params: [
+    { key: 'minOpacity', label: 'Min Opacity', min: 0, max: 1, step: 0.05, default: 0.25 },
+    { key: 'duration', label: 'Duration', min: 0.2, max: 3, step: 0.05, default: 1.2 },
+  ],
+  play: ({ cardTransformers, offsetFromTarget, stagger, params }) =>
+    gsap.to(cardTransformers, {
+      keyframes: [
+        { opacity: (i: number) => offsetFromTarget(i) === 0 ? 1 : params.minOpacity, duration: params.duration * 0.35, ease: 'power1.out' },
+        { opacity: 1, duration: params.duration * 0.65, ease: 'power2.inOut' }
+      ],
+      stagger,
+      overwrite: true,
+    }),
+};
+
+const registry = new Map<string, TransitionPreset>();
+
+export function registerTransition(preset: TransitionPreset) {
+  registry.set(preset.name, preset);
+}
+
+// Unknown names fall back to the original lag push.
+export function getTransition(name: string): TransitionPreset {
+  return registry.get(name) ?? lagPush;
+}
+
+export function listTransitions(): TransitionPreset[] {
+  return [...registry.values()];
+}
+
+// Preset defaults overlaid with any values tuned for it in the config.
+export function resolveTransitionParams(preset: TransitionPreset, overrides: Record<string, Record<string, number>>) {
+  const params: Record<string, number> = {};
+  preset.params.forEach(param => { params[param.key] = param.default; });
+  return { ...params, ...overrides[preset.name] };
+}
+
+[lagPush, elasticSpring, depthRipple, rotateFan, crossfade].forEach(registerTransition);
@@ -0,0 +1,8 @@
+// Positive modulo, so -1 wraps to count - 1.
+export const wrapIndex = (index: number, count: number) => ((index % count) + count) % count;
+
+// Signed number of steps from `from` to `to` along the shorter way around a loop of `count` items.
+export const circularDelta = (from: number, to: number, count: number) => {
+  const delta = wrapIndex(to - from, count);
+  return delta > count / 2 ? delta - count : delta;
+};
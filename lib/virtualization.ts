@@ -0,0 +1,43 @@
+import { wrapIndex } from './utils';
+
+// Slide indices to keep mounted: `radius` cards either side of each anchor, wrapped when looping.
+export function getMountedIndices(anchors: number[], radius: number, count: number, loop: boolean): number[] {
+  // Configs from code skip schema validation; a fractional radius would produce fractional indices.
+  const cards = Math.max(Math.floor(radius), 0);
+  if (count <= cards * 2 + 1) return Array.from({ length: count }, (_, i) => i);
+  const mounted = new Set<number>();
+  anchors.forEach(anchor => {
+    for (let offset = -cards; offset <= cards; offset++) {
+      const index = anchor + offset;
+      if (loop) mounted.add(wrapIndex(index, count));
+      else if (index >= 0 && index < count) mounted.add(index);
+    }
+  });
+  return [...mounted].sort((a, b) => a - b);
+}
+
+export interface PagerDot {
+  index: number;
+  // Dots at the edge of a condensed pager shrink to hint that more slides follow.
+  size: 'full' | 'small' | 'tiny';
+}
+
+// First index of a run of `size` consecutive slides centered on `currentIndex`, slid inwards at either end.
+export const getWindowStart = (currentIndex: number, count: number, size: number) =>
+  Math.max(Math.min(currentIndex - Math.floor(size / 2), count - size), 0);
+
+// One dot per slide, or a sliding window of `maxVisible` dots around the current slide once there are more.
+export function getPagerDots(currentIndex: number, count: number, maxVisible: number): PagerDot[] {
+  if (count <= maxVisible) {
+    return Array.from({ length: count }, (_, index) => ({ index, size: 'full' }));
+  }
+  const start = getWindowStart(currentIndex, count, maxVisible);
+  const end = start + maxVisible - 1;
+  return Array.from({ length: maxVisible }, (_, i) => {
+    const index = start + i;
+    const fromStartEdge = start > 0 ? i : Infinity;
+    const fromEndEdge = end < count - 1 ? maxVisible - 1 - i : Infinity;
+    const edgeDistance = Math.min(fromStartEdge, fromEndEdge);
+    return { index, size: edgeDistance === 0 ? 'tiny' : edgeDistance === 1 ? 'small' : 'full' };
+  });
+}
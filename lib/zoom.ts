@@ -0,0 +1,45 @@
+// Pan offsets are in px from the centered position; scale 1 is the fitted image.
+export interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const ZOOM_IDENTITY: ZoomState = { scale: 1, x: 0, y: 0 };
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+// Scale a double tap jumps to.
+export const DOUBLE_TAP_ZOOM = 2.5;
+// Wheel delta (px) that doubles or halves the scale.
+const WHEEL_ZOOM_PX = 350;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Keeps the zoomed image covering its box so no empty edge can be panned into view.
+export function clampPan(state: ZoomState, size: { width: number; height: number }): ZoomState {
+  const maxX = (size.width * (state.scale - 1)) / 2;
+  const maxY = (size.height * (state.scale - 1)) / 2;
+  return { scale: state.scale, x: clamp(state.x, -maxX, maxX), y: clamp(state.y, -maxY, maxY) };
+}
+
+// Zooms to `scale` while the content under `point` (relative to the box center) stays put.
+export function zoomAt(state: ZoomState, scale: number, point: Point, size: { width: number; height: number }): ZoomState {
+  const nextScale = clamp(scale, MIN_ZOOM, MAX_ZOOM);
+  const ratio = nextScale / state.scale;
+  return clampPan({
+    scale: nextScale,
+    x: point.x - (point.x - state.x) * ratio,
+    y: point.y - (point.y - state.y) * ratio,
+  }, size);
+}
+
+export const wheelZoomFactor = (deltaY: number) => Math.pow(2, -deltaY / WHEEL_ZOOM_PX);
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
@@ -0,0 +1,37 @@
+// Entry point of the published package: the slideshow component and its extension APIs, without the demo.
+import './library.css';
+
+export { LagSlideshow, LagSlideshow as default } from './components/LagSlideshow';
+export type { LagSlideshowHandle, LagSlideshowProps, SlideRenderContext } from './components/LagSlideshow';
+export type {
+  AnimationConfig,
+  CustomSlide,
+  FocalPoint,
+  ImageCrop,
+  ImageSlide,
+  ImageSource,
+  LayoutName,
+  Orientation,
+  ReadingDirection,
+  Slide,
+  SlideCta,
+  VideoSlide,
+} from './types';
+export { defaultConfig } from './constants';
+
+export { Emitter } from './lib/events';
+export type { CarouselEvents, EventListener } from './lib/events';
+export type { CarouselPlugin, CarouselPluginContext } from './lib/plugins';
+export { getTransition, listTransitions, registerTransition } from './lib/transitions';
+export type { TransitionContext, TransitionParam, TransitionPreset } from './lib/transitions';
+export { getLayout, layouts } from './lib/layouts';
+export type { CardTransform, LayoutContext, TrackLayout } from './lib/layouts';
+export { getTrackAxis, orientVars } from './lib/geometry';
+export type { TrackAxis } from './lib/geometry';
+export type { HistorySyncOptions } from './lib/deepLink';
+export { templateSources } from './lib/responsiveImages';
+
+export { ConfigValidationError, parseConfigJson, serializeConfig, validateConfig } from './lib/configSchema';
+export { ConfigStore } from './services/configStore';
+export type { ConfigStoreOptions } from './services/configStore';
+export { useConfigStore } from './hooks/useConfigStore';
@@ -0,0 +1,153 @@
+import { AnimationConfig } from '../types';
+import { defaultConfig } from '../constants';
+import { CONFIG_VERSION, ConfigFile, parseConfigFile, parseConfigJson, serializeConfig } from '../lib/configSchema';
+
+export interface ConfigStoreOptions {
+  // Where the working config and presets persist; null keeps everything in memory.
+  storage?: Storage | null;
+  storageKey?: string;
+  // Config to start from when storage holds nothing usable, e.g. a shipped preset.
+  initial?: AnimationConfig;
+  // Told about stored configs that were skipped and writes that failed; the store carries on either way.
+  onError?: (message: string, error: unknown) => void;
+}
+
+// localStorage throws in some privacy modes instead of being absent.
+const getLocalStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// Holds the working AnimationConfig, persists it, and manages named presets. Subscribable for useSyncExternalStore.
+export class ConfigStore {
+  private config: AnimationConfig;
+  private presets: Record<string, AnimationConfig>;
+  private listeners = new Set<() => void>();
+  private storage: Storage | null;
+  private storageKey: string;
+  private onError: ConfigStoreOptions['onError'];
+
+  constructor({ storage = getLocalStorage(), storageKey = 'lag-slideshow', initial = defaultConfig, onError }: ConfigStoreOptions = {}) {
+    this.storage = storage;
+    this.storageKey = storageKey;
+    this.onError = onError;
+    this.config = this.readConfig() ?? initial;
+    this.presets = this.readPresets();
+  }
+
+  public getConfig = (): AnimationConfig => this.config;
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public update(patch: Partial<AnimationConfig>) {
+    this.replace({ ...this.config, ...patch });
+  }
+
+  public replace(config: AnimationConfig) {
+    this.config = config;
+    this.write(this.storageKey, { version: CONFIG_VERSION, config });
+    this.notify();
+  }
+
+  public reset() {
+    this.replace(defaultConfig);
+  }
+
+  public listPresets(): string[] {
+    return Object.keys(this.presets).sort();
+  }
+
+  public savePreset(name: string) {
+    this.presets = { ...this.presets, [name]: this.config };
+    this.writePresets();
+    this.notify();
+  }
+
+  public loadPreset(name: string): boolean {
+    const preset = this.presets[name];
+    if (!preset) return false;
+    this.replace(preset);
+    return true;
+  }
+
+  public deletePreset(name: string) {
+    if (!this.presets[name]) return;
+    const { [name]: _removed, ...rest } = this.presets;
+    this.presets = rest;
+    this.writePresets();
+    this.notify();
+  }
+
+  public exportJson(name?: string): string {
+    return serializeConfig(this.config, name);
+  }
+
+  // Throws ConfigValidationError and leaves the config untouched when the JSON doesn't pass.
+  public importJson(json: string) {
+    this.replace(parseConfigJson(json));
+  }
+
+  private readConfig(): AnimationConfig | null {
+    const raw = this.read(this.storageKey);
+    if (raw === undefined) return null;
+    try {
+      return parseConfigFile(raw);
+    } catch (error) {
+      this.onError?.('Ignoring stored slideshow config', error);
+      return null;
+    }
+  }
+
+  // Presets are stored as ConfigFiles so each one migrates on its own; broken ones are skipped.
+  private readPresets(): Record<string, AnimationConfig> {
+    const raw = this.read(`${this.storageKey}:presets`);
+    if (typeof raw !== 'object' || raw === null) return {};
+    const presets: Record<string, AnimationConfig> = {};
+    Object.entries(raw).forEach(([name, file]) => {
+      try {
+        presets[name] = parseConfigFile(file);
+      } catch (error) {
+        this.onError?.(`Ignoring stored preset "${name}"`, error);
+      }
+    });
+    return presets;
+  }
+
+  private writePresets() {
+    const files: Record<string, ConfigFile> = {};
+    Object.entries(this.presets).forEach(([name, config]) => {
+      files[name] = { version: CONFIG_VERSION, name, config };
+    });
+    this.write(`${this.storageKey}:presets`, files);
+  }
+
+  private read(key: string): unknown {
+    try {
+      const json = this.storage?.getItem(key);
+      return json ? JSON.parse(json) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private write(key: string, value: unknown) {
+    try {
+      this.storage?.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      // Quota exceeded or storage disabled: keep working in memory.
+      this.onError?.('Could not persist slideshow config', error);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
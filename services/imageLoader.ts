@@ -0,0 +1,53 @@
+export type ImageStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+interface ImageEntry {
+  status: ImageStatus;
+  promise: Promise<void>;
+}
+
+// Loads and decodes images once per URL and remembers how each one went.
+export class ImageLoader {
+  private entries = new Map<string, ImageEntry>();
+
+  public getStatus = (url: string): ImageStatus => this.entries.get(url)?.status ?? 'idle';
+
+  // Resolves once the image is decoded, so painting it never shows a half-loaded frame.
+  public load(url: string): Promise<void> {
+    const existing = this.entries.get(url);
+    if (existing) return existing.promise;
+
+    const img = new Image();
+    img.decoding = 'async';
+    img.src = url;
+    const promise = img.decode().then(
+      () => this.setStatus(url, 'loaded'),
+      (error: unknown) => {
+        this.setStatus(url, 'error');
+        throw error;
+      }
+    );
+    // Callers that only preload never look at the result.
+    promise.catch(() => {});
+    this.entries.set(url, { status: 'loading', promise });
+    return promise;
+  }
+
+  // Resolves when the image has loaded or failed, or after `timeoutMs`, whichever comes first.
+  public whenSettled(url: string, timeoutMs: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return Promise.race([
+      this.load(url).catch(() => {}),
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, timeoutMs);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  private setStatus(url: string, status: ImageStatus) {
+    const entry = this.entries.get(url);
+    if (!entry) return;
+    entry.status = status;
+  }
+}
+
+export const imageLoader = new ImageLoader();
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { gsap } from 'gsap';
+import { CarouselAnimation } from '../lib/CarouselAnimation';
+import { CarouselEvents, Emitter } from '../lib/events';
+import { defaultConfig } from '../constants';
+import { AnimationConfig } from '../types';
+import { advance } from './fakeGsap';
+
+const COUNT = 5;
+// Stage and card sizes come from tests/setup.ts.
+const targetX = (index: number) => 350 - 300 * index;
+const targetY = (index: number) => 200 - 200 * index;
+
+function mountTrack() {
+  const stage = document.createElement('div');
+  const track = document.createElement('div');
+  for (let i = 0; i < COUNT; i++) {
+    const card = document.createElement('div');
+    card.className = 'carousel-card';
+    card.dataset.index = String(i);
+    const transformer = document.createElement('div');
+    transformer.className = 'card-transformer';
+    card.appendChild(transformer);
+    track.appendChild(card);
+  }
+  stage.appendChild(track);
+  document.body.appendChild(stage);
+  return track;
+}
+
+let controller: CarouselAnimation | null = null;
+
+function createController(loop: boolean, events?: Emitter<CarouselEvents>, overrides: Partial<AnimationConfig> = {}) {
+  controller = new CarouselAnimation(mountTrack(), { ...defaultConfig, ...overrides, loop }, COUNT, events);
+  controller.snapTo(0);
+  return controller;
+}
+
+const trackX = () => gsap.getProperty(controller!.carouselEl, 'x') as number;
+
+afterEach(() => {
+  controller?.destroy();
+  controller = null;
+  document.body.innerHTML = '';
+});
+
+describe('CarouselAnimation', () => {
+  it('snaps the requested card to the center', () => {
+    const animation = createController(false);
+    animation.snapTo(2);
+    expect(trackX()).toBe(targetX(2));
+    expect(animation.getClosestIndex()).toBe(2);
+  });
+
+  it('slides the track to the destination and reports completion', () => {
+    const animation = createController(false);
+    let completed = false;
+    animation.goTo(0, 3, () => { completed = true; });
+    advance(0.5);
+    expect(completed).toBe(false);
+    expect(trackX()).toBeLessThan(targetX(0));
+    advance(1.5);
+    expect(completed).toBe(true);
+    expect(trackX()).toBe(targetX(3));
+    expect(animation.getClosestIndex()).toBe(3);
+  });
+
+  it('takes the short way round when looping and lands back on the real card', () => {
+    const animation = createController(true);
+    animation.goTo(0, 4);
+    advance(0.75);
+    // Halfway to virtual slide -1, i.e. moving right.
+    expect(trackX()).toBeGreaterThan(targetX(0));
+    advance(1);
+    expect(trackX()).toBe(targetX(4));
+    expect(animation.getClosestIndex()).toBe(4);
+  });
+
+  it('travels the requested number of laps for a flick', () => {
+    const animation = createController(true);
+    const xs: number[] = [];
+    animation.events.on('tick', ({ x }) => xs.push(x));
+    animation.goTo(0, 1, undefined, { steps: 6 });
+    advance(2);
+    expect(Math.min(...xs)).toBeLessThan(targetX(5));
+    expect(trackX()).toBe(targetX(1));
+  });
+
+  it('stops where it is on interrupt and adopts the closest card', () => {
+    const events = new Emitter<CarouselEvents>();
+    const interrupts: number[] = [];
+    events.on('interrupt', ({ index }) => interrupts.push(index));
+    const animation = createController(false, events);
+    let completed = false;
+    animation.goTo(0, 4, () => { completed = true; });
+    advance(0.9);
+
+    const index = animation.interrupt();
+    const stoppedAt = trackX();
+    // 0.9s into a linear 1.5s tween across four cards is 2.4 cards along.
+    expect(index).toBe(2);
+    expect(interrupts).toEqual([2]);
+
+    advance(2);
+    expect(trackX()).toBe(stoppedAt);
+    expect(completed).toBe(false);
+  });
+
+  it('reports the centered card as it changes', () => {
+    const events = new Emitter<CarouselEvents>();
+    const centers: number[] = [];
+    events.on('centerChange', ({ index }) => centers.push(index));
+    const animation = createController(false, events);
+    animation.goTo(0, 3);
+    advance(2);
+    expect(centers).toEqual([0, 1, 2, 3]);
+  });
+
+  it('resists dragging past the first card without looping', () => {
+    const animation = createController(false);
+    animation.drag(targetX(0), 200);
+    expect(trackX()).toBeGreaterThan(targetX(0));
+    expect(trackX()).toBeLessThan(targetX(0) + 200);
+
+    createController(true).drag(targetX(0), 200);
+    expect(trackX()).toBe(targetX(0) + 200);
+  });
+
+  it('mirrors the track for right-to-left', () => {
+    const animation = createController(false, undefined, { direction: 'rtl' });
+    animation.snapTo(2);
+    expect(trackX()).toBe(-targetX(2));
+    expect(animation.getOffset()).toBe(targetX(2));
+    expect(animation.getClosestIndex()).toBe(2);
+  });
+
+  it('runs a vertical track along y', () => {
+    const animation = createController(false, undefined, { orientation: 'vertical' });
+    animation.goTo(0, 2);
+    advance(2);
+    expect(gsap.getProperty(animation.carouselEl, 'y')).toBe(targetY(2));
+    expect(trackX()).toBe(0);
+    expect(animation.getClosestIndex()).toBe(2);
+  });
+
+  it('moves the current card onto the new axis when the orientation changes', () => {
+    const animation = createController(false);
+    animation.snapTo(3);
+    animation.updateConfig({ orientation: 'vertical' });
+    expect(trackX()).toBe(0);
+    expect(gsap.getProperty(animation.carouselEl, 'y')).toBe(targetY(3));
+  });
+});
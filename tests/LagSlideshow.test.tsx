@@ -0,0 +1,278 @@
+import React, { StrictMode, act, createRef } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gsap } from 'gsap';
+import { LagSlideshow, LagSlideshowHandle } from '../components/LagSlideshow';
+import { images } from '../constants';
+import { advance } from './fakeGsap';
+
+// Stage and card sizes come from tests/setup.ts.
+const targetX = (index: number) => 350 - 300 * index;
+
+let container: HTMLDivElement;
+let root: Root;
+let log: string[];
+const handle = createRef<LagSlideshowHandle>();
+
+async function renderSlideshow(config = {}) {
+  await act(async () => {
+    root.render(<LagSlideshow items={images} config={config} ref={handle} />);
+  });
+  for (const type of ['dragStart', 'beforeChange', 'change', 'afterChange', 'interrupt'] as const) {
+    handle.current!.on(type, payload => log.push(`${type}:${'index' in payload ? payload.index : payload.to}`));
+  }
+}
+
+const track = () => container.querySelector<HTMLElement>('[id$="-track"]')!;
+const gestureArea = () => track().parentElement!;
+const trackX = () => gsap.getProperty(track(), 'x') as number;
+
+// Pointer events with a controlled timestamp, which the velocity tracker and tap detection read.
+// React falls back to Date.now() for a zero timestamp, so sequences start at 1000.
+function pointer(type: string, clientX: number, timeStamp: number) {
+  const event = new PointerEvent(type, { bubbles: true, clientX, clientY: 200, pointerId: 1, pointerType: 'touch', button: 0 });
+  Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+  act(() => {
+    gestureArea().dispatchEvent(event);
+  });
+}
+
+// Runs the fake clock in small steps so promises and React updates settle between frames.
+async function run(seconds: number) {
+  for (let elapsed = 0; elapsed < seconds - 1e-9; elapsed += 0.1) {
+    await act(async () => advance(0.1));
+  }
+}
+
+beforeEach(() => {
+  log = [];
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe('LagSlideshow', () => {
+  it('moves one slide for a slow drag past the threshold', async () => {
+    await renderSlideshow();
+    expect(trackX()).toBe(targetX(0));
+
+    pointer('pointerdown', 500, 1000);
+    pointer('pointermove', 450, 1100);
+    pointer('pointermove', 400, 1200);
+    pointer('pointerup', 400, 1400);
+    expect(log).toEqual(['dragStart:0', 'beforeChange:1', 'change:1']);
+
+    await run(2);
+    expect(handle.current!.getIndex()).toBe(1);
+    expect(trackX()).toBe(targetX(1));
+    expect(log).toEqual(['dragStart:0', 'beforeChange:1', 'change:1', 'afterChange:1']);
+  });
+
+  it('moves forward for a drag to the right when right-to-left', async () => {
+    await renderSlideshow({ direction: 'rtl' });
+    expect(trackX()).toBe(-targetX(0));
+
+    pointer('pointerdown', 400, 1000);
+    pointer('pointermove', 450, 1100);
+    pointer('pointermove', 500, 1200);
+    pointer('pointerup', 500, 1400);
+
+    await run(2);
+    expect(handle.current!.getIndex()).toBe(1);
+    expect(trackX()).toBe(-targetX(1));
+  });
+
+  it('settles back for a short drag', async () => {
+    await renderSlideshow();
+    pointer('pointerdown', 500, 1000);
+    pointer('pointermove', 460, 1100);
+    pointer('pointerup', 460, 1400);
+
+    await run(2);
+    expect(handle.current!.getIndex()).toBe(0);
+    expect(trackX()).toBe(targetX(0));
+    expect(log).toEqual(['dragStart:0']);
+  });
+
+  it('throws several slides for a fast flick', async () => {
+    await renderSlideshow();
+    pointer('pointerdown', 500, 1000);
+    pointer('pointermove', 460, 1016);
+    pointer('pointermove', 420, 1032);
+    pointer('pointermove', 380, 1048);
+    pointer('pointerup', 380, 1048);
+
+    await run(2);
+    // -2.5px/ms projects 1250px further, past slide 4.
+    expect(handle.current!.getIndex()).toBe(5);
+    expect(trackX()).toBe(targetX(5));
+  });
+
+  it('keeps the direction of a flick in controlled mode', async () => {
+    const Controlled = () => {
+      const [index, setIndex] = React.useState(0);
+      return <LagSlideshow items={images} index={index} onChange={setIndex} ref={handle} />;
+    };
+    await act(async () => {
+      root.render(<Controlled />);
+    });
+    pointer('pointerdown', 500, 1000);
+    pointer('pointermove', 460, 1016);
+    pointer('pointermove', 420, 1032);
+    pointer('pointermove', 380, 1048);
+    pointer('pointerup', 380, 1048);
+
+    // Five slides forward rather than the two back that would be shorter.
+    await run(0.5);
+    expect(trackX()).toBeLessThan(targetX(1));
+    await run(1.5);
+    expect(handle.current!.getIndex()).toBe(5);
+    expect(trackX()).toBe(targetX(5));
+  });
+
+  it('adopts the closest slide when a drag interrupts a transition', async () => {
+    await renderSlideshow();
+    act(() => handle.current!.goTo(4));
+    expect(log).toEqual(['beforeChange:4', 'change:4']);
+
+    // Loop mode takes the short way round: 0 -> 6 -> 5 -> 4. 0.9s into the 1.5s move is 1.8 slides along.
+    await run(0.9);
+    pointer('pointerdown', 500, 1000);
+    pointer('pointerup', 500, 1050);
+    expect(handle.current!.getIndex()).toBe(5);
+
+    await run(2);
+    expect(handle.current!.getIndex()).toBe(5);
+    expect(trackX()).toBe(targetX(5));
+    // The killed transition never reports afterChange.
+    expect(log).toEqual(['beforeChange:4', 'change:4', 'interrupt:5', 'dragStart:5', 'change:5']);
+  });
+
+  it('pushes the cards a long jump mounts around its destination', async () => {
+    const manyItems = Array.from({ length: 100 }, (_, i) => ({ ...images[i % images.length], id: i }));
+    await act(async () => {
+      root.render(<LagSlideshow items={manyItems} ref={handle} />);
+    });
+    act(() => handle.current!.goTo(50));
+    await run(0.3);
+    const pushOf = (index: number) => {
+      const transformer = container.querySelector(`[data-index="${index}"] .card-transformer`);
+      return gsap.getProperty(transformer, 'x') as number;
+    };
+    expect(pushOf(49)).toBeLessThan(0);
+    expect(pushOf(51)).toBeGreaterThan(0);
+  });
+
+  it('mounts whole cards for a fractional virtual window', async () => {
+    await renderSlideshow({ virtualizeThreshold: 2, virtualWindow: 1.5 });
+    const mounted = [...container.querySelectorAll<HTMLElement>('.carousel-card')].map(card => card.dataset.index);
+    // Looping wraps the window round to the last slide.
+    expect(mounted).toEqual(['0', '1', '6']);
+  });
+
+  it('stops a transition to a slide that was removed', async () => {
+    const renderItems = (count: number) => act(async () => {
+      root.render(<LagSlideshow items={images.slice(0, count)} config={{ loop: false }} ref={handle} />);
+    });
+    await renderItems(7);
+    act(() => handle.current!.goTo(6));
+    await run(0.5);
+    await renderItems(3);
+    await run(2);
+    expect(handle.current!.getIndex()).toBe(2);
+    expect(trackX()).toBe(targetX(2));
+  });
+
+  it('only points tabs at slides that are mounted', async () => {
+    await renderSlideshow({ virtualizeThreshold: 2, virtualWindow: 1 });
+    for (const tab of container.querySelectorAll('[role="tab"]')) {
+      expect(document.getElementById(tab.getAttribute('aria-controls')!)).not.toBeNull();
+    }
+  });
+
+  it('only mounts thumbnails around the current slide when virtualized', async () => {
+    const manyItems = Array.from({ length: 1000 }, (_, i) => ({ ...images[i % images.length], id: i }));
+    await act(async () => {
+      root.render(<LagSlideshow items={manyItems} thumbnails defaultIndex={500} ref={handle} />);
+    });
+    const thumbs = [...container.querySelectorAll<HTMLElement>('[data-thumb-index]')].map(thumb => Number(thumb.dataset.thumbIndex));
+    expect(thumbs).toHaveLength(31);
+    expect(thumbs[0]).toBe(485);
+    expect(thumbs).toContain(500);
+  });
+
+  it('reports afterChange only once the transition finished', async () => {
+    await renderSlideshow({ loop: false });
+    const landed: boolean[] = [];
+    handle.current!.on('afterChange', ({ index }) => landed.push(trackX() === targetX(index)));
+    act(() => handle.current!.next());
+    await run(1);
+    expect(log).toEqual(['beforeChange:1', 'change:1']);
+    await run(1);
+    expect(log).toEqual(['beforeChange:1', 'change:1', 'afterChange:1']);
+
+    act(() => handle.current!.next());
+    act(() => handle.current!.next());
+    await run(2);
+    // The second call lands while the first transition still runs and replaces it.
+    expect(handle.current!.getIndex()).toBe(3);
+    expect(log.slice(3)).toEqual(['beforeChange:2', 'change:2', 'beforeChange:3', 'change:3', 'afterChange:3']);
+    expect(landed).toEqual([true, true]);
+  });
+
+  it('waits for a track move that outlasts the header and background', async () => {
+    await renderSlideshow({ loop: false, duration: 3 });
+    act(() => handle.current!.next());
+    await run(2);
+    expect(log).toEqual(['beforeChange:1', 'change:1']);
+
+    // A drag while the track is still moving takes it over instead of fighting the tween.
+    pointer('pointerdown', 500, 1000);
+    const caughtAt = trackX();
+    pointer('pointermove', 450, 1100);
+    await run(0.3);
+    expect(trackX()).toBe(caughtAt - 50);
+    expect(log).toEqual(['beforeChange:1', 'change:1', 'interrupt:1', 'dragStart:1']);
+    pointer('pointerup', 450, 1400);
+  });
+
+  it('only pushes history entries for slides the user picked', async () => {
+    const pushState = vi.spyOn(window.history, 'pushState');
+    await act(async () => {
+      root.render(
+        <LagSlideshow items={images} history={{ method: 'push' }} config={{ autoplay: true, autoplayInterval: 1 }} ref={handle} />
+      );
+    });
+    // Autoplay moves to slide 1 and replaces the landing entry.
+    await run(1.1);
+    expect(handle.current!.getIndex()).toBe(1);
+    expect(window.location.hash).toBe('#slide=1');
+    expect(pushState).not.toHaveBeenCalled();
+
+    act(() => handle.current!.goTo(3));
+    expect(window.location.hash).toBe('#slide=3');
+    expect(pushState).toHaveBeenCalledTimes(1);
+
+    pushState.mockRestore();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('lands on a deep link under StrictMode without adding history entries', async () => {
+    window.history.replaceState(null, '', '/#slide=3');
+    const pushState = vi.spyOn(window.history, 'pushState');
+    await act(async () => {
+      root.render(<StrictMode><LagSlideshow items={images} history={{ method: 'push' }} ref={handle} /></StrictMode>);
+    });
+    expect(handle.current!.getIndex()).toBe(3);
+    expect(window.location.hash).toBe('#slide=3');
+    expect(pushState).not.toHaveBeenCalled();
+
+    pushState.mockRestore();
+    window.history.replaceState(null, '', '/');
+  });
+});
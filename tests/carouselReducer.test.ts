@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { carouselReducer, initCarouselState } from '../lib/carouselReducer';
+import { CarouselState } from '../types';
+
+const idle = (currentIndex: number, count = 5): CarouselState => initCarouselState({ count, index: currentIndex });
+
+describe('initCarouselState', () => {
+  it('clamps the start index to the items', () => {
+    expect(initCarouselState({ count: 3, index: 7 }).currentIndex).toBe(2);
+    expect(initCarouselState({ count: 3, index: -1 }).currentIndex).toBe(0);
+    expect(initCarouselState({ count: 0, index: 4 }).currentIndex).toBe(0);
+  });
+});
+
+describe('carouselReducer', () => {
+  it('wraps NEXT and PREV around the ends', () => {
+    expect(carouselReducer(idle(4), { type: 'NEXT' })).toMatchObject({ status: 'animating', fromIndex: 4, currentIndex: 0, steps: 1 });
+    expect(carouselReducer(idle(0), { type: 'PREV' })).toMatchObject({ status: 'animating', fromIndex: 0, currentIndex: 4, steps: -1 });
+  });
+
+  it('keeps a lone slide still', () => {
+    const single = idle(0, 1);
+    expect(carouselReducer(single, { type: 'NEXT' })).toBe(single);
+    expect(carouselReducer(single, { type: 'PREV' })).toBe(single);
+    expect(carouselReducer(single, { type: 'STEP', payload: 3 })).toBe(single);
+  });
+
+  it('ignores navigation without items', () => {
+    const empty = idle(0, 0);
+    expect(carouselReducer(empty, { type: 'NEXT' })).toBe(empty);
+    expect(carouselReducer(empty, { type: 'PREV' })).toBe(empty);
+    expect(carouselReducer(empty, { type: 'STEP', payload: 2 })).toBe(empty);
+  });
+
+  it('ignores GOTO to the current or a missing slide', () => {
+    const state = idle(2);
+    expect(carouselReducer(state, { type: 'GOTO', payload: 2 })).toBe(state);
+    expect(carouselReducer(state, { type: 'GOTO', payload: 5 })).toBe(state);
+    expect(carouselReducer(state, { type: 'GOTO', payload: -1 })).toBe(state);
+    expect(carouselReducer(state, { type: 'GOTO', payload: 4 })).toMatchObject({ status: 'animating', fromIndex: 2, currentIndex: 4, steps: 0 });
+  });
+
+  it('wraps multi-slide STEPs and keeps their direction', () => {
+    expect(carouselReducer(idle(3), { type: 'STEP', payload: 4 })).toMatchObject({ currentIndex: 2, fromIndex: 3, steps: 4 });
+    expect(carouselReducer(idle(1), { type: 'STEP', payload: -3 })).toMatchObject({ currentIndex: 3, steps: -3 });
+    const state = idle(1);
+    expect(carouselReducer(state, { type: 'STEP', payload: 0 })).toBe(state);
+  });
+
+  it('settles on the interrupted index', () => {
+    const animating = carouselReducer(idle(0), { type: 'GOTO', payload: 4 });
+    expect(carouselReducer(animating, { type: 'INTERRUPT', payload: 2 })).toMatchObject({ status: 'idle', currentIndex: 2, fromIndex: 2 });
+  });
+
+  it('jumps to a slide without a transition', () => {
+    expect(carouselReducer(idle(0), { type: 'JUMP', payload: 3 })).toMatchObject({ status: 'idle', currentIndex: 3, fromIndex: 3 });
+    const state = idle(1);
+    expect(carouselReducer(state, { type: 'JUMP', payload: 1 })).toBe(state);
+    expect(carouselReducer(state, { type: 'JUMP', payload: 5 })).toBe(state);
+  });
+
+  it('goes idle on ANIMATION_END and keeps the destination', () => {
+    const animating = carouselReducer(idle(1), { type: 'NEXT' });
+    expect(carouselReducer(animating, { type: 'ANIMATION_END' })).toMatchObject({ status: 'idle', currentIndex: 2, fromIndex: 2 });
+  });
+
+  it('keeps the index in bounds when items are removed', () => {
+    const animating = carouselReducer(idle(3), { type: 'NEXT' });
+    expect(carouselReducer(animating, { type: 'SET_COUNT', payload: 2 })).toMatchObject({ status: 'idle', count: 2, currentIndex: 1, fromIndex: 1 });
+    expect(carouselReducer(idle(3), { type: 'SET_COUNT', payload: 0 })).toMatchObject({ count: 0, currentIndex: 0 });
+  });
+});
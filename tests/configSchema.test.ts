@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_VERSION, ConfigValidationError, parseConfigFile, parseConfigJson, serializeConfig, validateConfig } from '../lib/configSchema';
+import { defaultConfig } from '../constants';
+
+const issuesOf = (json: string) => {
+  try {
+    parseConfigJson(json);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('validateConfig', () => {
+  it('fills missing keys with defaults and drops unknown ones', () => {
+    expect(validateConfig({ duration: 2, sparkles: true })).toEqual({ ...defaultConfig, duration: 2 });
+  });
+
+  it('reports every bad field at once', () => {
+    expect(() => validateConfig({ loop: 'yes', layout: 'spiral', edgeResistance: 2 })).toThrow(ConfigValidationError);
+    expect(issuesOf('{"loop":"yes","layout":"spiral","edgeResistance":2}')).toEqual([
+      expect.stringMatching(/^layout must be one of /),
+      'loop must be true or false',
+      'edgeResistance must be at most 1',
+    ]);
+  });
+
+  it('only accepts numeric transition parameters', () => {
+    expect(issuesOf('{"transitionParams":{"fade":{"amount":"lots"}}}')).toEqual([
+      'transitionParams must map preset names to numeric parameters',
+    ]);
+  });
+});
+
+describe('parseConfigFile', () => {
+  it('reads a bare config object as the first version', () => {
+    expect(parseConfigFile({ duration: 2 })).toEqual({ ...defaultConfig, duration: 2 });
+    expect(parseConfigFile({ config: { duration: 2 } })).toEqual({ ...defaultConfig, duration: 2 });
+  });
+
+  it('rejects unknown and malformed versions', () => {
+    expect(() => parseConfigFile({ version: CONFIG_VERSION + 1, config: {} })).toThrow(/newer than this slideshow supports/);
+    expect(() => parseConfigFile({ version: 0, config: {} })).toThrow(/version must be a positive integer/);
+    expect(() => parseConfigFile({ version: '1', config: {} })).toThrow(/version must be a positive integer/);
+    expect(() => parseConfigFile([])).toThrow(/expected a JSON object/);
+  });
+});
+
+describe('parseConfigJson', () => {
+  it('round-trips a serialized config', () => {
+    const config = { ...defaultConfig, loop: false, duration: 1.5 };
+    const json = serializeConfig(config, 'Slow');
+    expect(JSON.parse(json)).toMatchObject({ version: CONFIG_VERSION, name: 'Slow' });
+    expect(parseConfigJson(json)).toEqual(config);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(issuesOf('{duration: 2}')).toEqual(['not valid JSON']);
+  });
+
+  it('rejects fractional slide counts', () => {
+    expect(issuesOf('{"virtualizeThreshold":2,"virtualWindow":1.5,"preloadRadius":0.5}')).toEqual([
+      'virtualWindow must be a whole number',
+      'preloadRadius must be a whole number',
+    ]);
+    expect(issuesOf('{"virtualWindow":0}')).toEqual(['virtualWindow must be at least 1']);
+  });
+});
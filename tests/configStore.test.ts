@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CONFIG_VERSION, ConfigValidationError } from '../lib/configSchema';
+import { ConfigStore } from '../services/configStore';
+import { defaultConfig } from '../constants';
+
+// In-memory Storage; `failWrites` makes setItem throw like a full quota.
+class MemoryStorage implements Storage {
+  public failWrites = false;
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  public clear() {
+    this.items.clear();
+  }
+
+  public getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  public key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  public removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  public setItem(key: string, value: string) {
+    if (this.failWrites) throw new Error('QuotaExceededError');
+    this.items.set(key, value);
+  }
+}
+
+describe('ConfigStore', () => {
+  it('persists the working config across stores', () => {
+    const storage = new MemoryStorage();
+    new ConfigStore({ storage }).update({ duration: 2 });
+    expect(JSON.parse(storage.getItem('lag-slideshow')!)).toMatchObject({ version: CONFIG_VERSION });
+    expect(new ConfigStore({ storage }).getConfig()).toEqual({ ...defaultConfig, duration: 2 });
+  });
+
+  it('starts from the initial config when storage holds an invalid one', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('lag-slideshow', '{"version":1,"config":{"duration":-1}}');
+    const onError = vi.fn();
+    const initial = { ...defaultConfig, loop: false };
+    expect(new ConfigStore({ storage, initial, onError }).getConfig()).toBe(initial);
+    expect(onError).toHaveBeenCalledWith('Ignoring stored slideshow config', expect.any(ConfigValidationError));
+  });
+
+  it('saves, loads and deletes presets', () => {
+    const storage = new MemoryStorage();
+    const store = new ConfigStore({ storage });
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.update({ duration: 3 });
+    store.savePreset('Slow');
+    store.reset();
+
+    const reopened = new ConfigStore({ storage });
+    expect(reopened.listPresets()).toEqual(['Slow']);
+    expect(reopened.loadPreset('Slow')).toBe(true);
+    expect(reopened.getConfig().duration).toBe(3);
+    expect(reopened.loadPreset('Missing')).toBe(false);
+
+    store.deletePreset('Slow');
+    expect(store.listPresets()).toEqual([]);
+    expect(new ConfigStore({ storage }).listPresets()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it('skips broken stored presets and keeps the rest', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('lag-slideshow:presets', JSON.stringify({
+      Good: { version: 1, config: { duration: 2 } },
+      Future: { version: CONFIG_VERSION + 1, config: {} },
+    }));
+    const onError = vi.fn();
+    const store = new ConfigStore({ storage, onError });
+    expect(store.listPresets()).toEqual(['Good']);
+    expect(onError).toHaveBeenCalledWith('Ignoring stored preset "Future"', expect.any(ConfigValidationError));
+  });
+
+  it('leaves the config untouched when an import fails', () => {
+    const store = new ConfigStore({ storage: null });
+    expect(() => store.importJson('{"config":{"stagger":-1}}')).toThrow(ConfigValidationError);
+    expect(store.getConfig()).toBe(defaultConfig);
+    store.importJson(store.exportJson());
+    expect(store.getConfig()).toEqual(defaultConfig);
+  });
+
+  it('keeps working in memory when storage refuses writes', () => {
+    const storage = new MemoryStorage();
+    storage.failWrites = true;
+    const onError = vi.fn();
+    const store = new ConfigStore({ storage, onError });
+    store.update({ duration: 2 });
+    expect(store.getConfig().duration).toBe(2);
+    expect(onError).toHaveBeenCalledWith('Could not persist slideshow config', expect.any(Error));
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HistorySyncOptions, defaultHistorySyncOptions, formatSlideParam, getSlideSlug, parseSlideParam, readSlideParam,
+  writeSlideParam,
+} from '../lib/deepLink';
+import { Slide } from '../types';
+
+const slides: Slide[] = [
+  { id: 7, title: 'Café au lait', url: '/cafe.jpg' },
+  { id: 12, title: 'Northern Lights', url: '/aurora.jpg' },
+  { id: 3, title: '!!!', url: '/untitled.jpg' },
+];
+
+const withOptions = (options: HistorySyncOptions) => ({ ...defaultHistorySyncOptions, ...options });
+const bySlug = withOptions({ format: 'slug' });
+
+describe('getSlideSlug', () => {
+  it('prefixes the id to an ASCII slug of the title', () => {
+    expect(getSlideSlug(slides[0])).toBe('7-cafe-au-lait');
+    expect(getSlideSlug(slides[2])).toBe('3');
+  });
+});
+
+describe('parseSlideParam', () => {
+  it('accepts in-range indices only', () => {
+    expect(parseSlideParam(slides, '1', defaultHistorySyncOptions)).toBe(1);
+    for (const value of ['3', '-1', '1.5', 'one', '', null]) {
+      expect(parseSlideParam(slides, value, defaultHistorySyncOptions)).toBeNull();
+    }
+  });
+
+  it('resolves slugs by id so renamed titles still match', () => {
+    expect(parseSlideParam(slides, formatSlideParam(slides, 1, bySlug), bySlug)).toBe(1);
+    expect(parseSlideParam(slides, '12-old-title', bySlug)).toBe(1);
+    expect(parseSlideParam(slides, '99-missing', bySlug)).toBeNull();
+  });
+});
+
+describe('readSlideParam and writeSlideParam', () => {
+  it('use the hash by default and keep other parameters', () => {
+    const href = writeSlideParam('https://example.com/gallery?ref=mail#theme=dark', '2', defaultHistorySyncOptions);
+    expect(href).toBe('https://example.com/gallery?ref=mail#theme=dark&slide=2');
+    expect(readSlideParam(href, defaultHistorySyncOptions)).toBe('2');
+  });
+
+  it('use the query string and a custom parameter name when asked', () => {
+    const options = withOptions({ location: 'query', param: 'photo' });
+    const href = writeSlideParam('https://example.com/gallery?ref=mail#top', '12-northern-lights', options);
+    expect(href).toBe('https://example.com/gallery?ref=mail&photo=12-northern-lights#top');
+    expect(readSlideParam(href, options)).toBe('12-northern-lights');
+    expect(readSlideParam('https://example.com/gallery', options)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Emitter } from '../lib/events';
+
+interface TestEvents {
+  ping: { value: number };
+  pong: { value: number };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Emitter', () => {
+  it('stops calling a listener once unsubscribed', () => {
+    const emitter = new Emitter<TestEvents>();
+    const values: number[] = [];
+    const off = emitter.on('ping', ({ value }) => values.push(value));
+    emitter.emit('ping', { value: 1 });
+    off();
+    emitter.emit('ping', { value: 2 });
+    expect(values).toEqual([1]);
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  it('only notifies listeners of the emitted type until cleared', () => {
+    const emitter = new Emitter<TestEvents>();
+    const calls: string[] = [];
+    emitter.on('ping', ({ value }) => calls.push(`ping:${value}`));
+    emitter.on('pong', ({ value }) => calls.push(`pong:${value}`));
+    emitter.emit('pong', { value: 1 });
+    emitter.clear();
+    emitter.emit('ping', { value: 2 });
+    expect(calls).toEqual(['pong:1']);
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  it('keeps notifying after a listener throws and rethrows the error later', () => {
+    const deferred: (() => void)[] = [];
+    vi.stubGlobal('queueMicrotask', (callback: () => void) => deferred.push(callback));
+    const emitter = new Emitter<TestEvents>();
+    const failure = new Error('plugin bug');
+    const values: number[] = [];
+    emitter.on('ping', () => { throw failure; });
+    emitter.on('ping', ({ value }) => values.push(value));
+
+    emitter.emit('ping', { value: 1 });
+    expect(values).toEqual([1]);
+    expect(deferred).toHaveLength(1);
+    expect(deferred[0]).toThrow(failure);
+  });
+});
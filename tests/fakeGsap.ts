@@ -0,0 +1,324 @@
+// Deterministic stand-in for the `gsap` module, swapped in by tests/setup.ts. Time only moves when a test
+// calls `advance`, every ease is linear and only the API the slideshow uses is implemented.
+
+type Vars = Record<string, any>;
+
+// Keys that configure a tween rather than name an animated property.
+const CONTROL_KEYS = new Set([
+  'duration', 'ease', 'delay', 'stagger', 'overwrite', 'keyframes', 'paused',
+  'onComplete', 'onUpdate', 'onStart', 'immediateRender',
+]);
+
+// Values GSAP reports for transform properties an element was never given.
+const PROPERTY_DEFAULTS: Record<string, number> = { scale: 1, scaleX: 1, scaleY: 1, opacity: 1 };
+
+// Element properties live here instead of in inline styles, so `getProperty` reads back exact numbers.
+const elementProps = new WeakMap<object, Record<string, any>>();
+
+const isElement = (target: any): target is Element => typeof Element !== 'undefined' && target instanceof Element;
+
+function readProperty(target: any, key: string): any {
+  if (isElement(target)) return elementProps.get(target)?.[key] ?? PROPERTY_DEFAULTS[key] ?? 0;
+  return target[key];
+}
+
+function writeProperty(target: any, key: string, value: any) {
+  if (isElement(target)) {
+    const props = elementProps.get(target) ?? {};
+    props[key] = value;
+    elementProps.set(target, props);
+    return;
+  }
+  target[key] = value;
+}
+
+function toArray(targets: any): any[] {
+  if (targets == null) return [];
+  if (Array.isArray(targets)) return targets.filter(target => target != null);
+  if (typeof targets !== 'string' && typeof targets.length === 'number' && !isElement(targets)) return Array.from(targets);
+  return [targets];
+}
+
+// Animated properties of `vars`, with function-based values resolved for one target.
+function resolveProps(vars: Vars, index: number, target: any, targets: any[]): Vars {
+  const props: Vars = {};
+  for (const key of Object.keys(vars)) {
+    if (CONTROL_KEYS.has(key)) continue;
+    const value = vars[key];
+    props[key] = typeof value === 'function' ? value(index, target, targets) : value;
+  }
+  return props;
+}
+
+function staggerDelay(stagger: any, index: number, target: any, targets: any[]): number {
+  if (typeof stagger === 'function') return stagger(index, target, targets);
+  return typeof stagger === 'number' ? stagger * index : 0;
+}
+
+interface Segment {
+  target: any;
+  start: number;
+  duration: number;
+  to: Vars;
+  // Start values; captured from the target when the segment first renders unless a `fromTo` gave them.
+  from: Vars | null;
+}
+
+interface Animation {
+  advance(dt: number): void;
+  isDone(): boolean;
+}
+
+const active = new Set<Animation>();
+const tickerCallbacks = new Set<(time: number) => void>();
+let clock = 0;
+
+export class FakeTween implements Animation {
+  public readonly targets: any[];
+  public readonly duration: number;
+  private segments: Segment[] = [];
+  private time = 0;
+  private paused: boolean;
+  private killed = false;
+  private completed = false;
+
+  constructor(targets: any, private vars: Vars, fromVars?: Vars, nested = false) {
+    this.targets = toArray(targets);
+    const steps: Vars[] = vars.keyframes ?? [vars];
+    let duration = (vars.delay ?? 0) + steps.reduce((sum, step) => sum + (step.duration ?? vars.duration ?? 0.5), 0);
+
+    this.targets.forEach((target, i) => {
+      let start = (vars.delay ?? 0) + staggerDelay(vars.stagger, i, target, this.targets);
+      steps.forEach((step, stepIndex) => {
+        const stepDuration = step.duration ?? vars.duration ?? 0.5;
+        const from = fromVars && stepIndex === 0 ? resolveProps(fromVars, i, target, this.targets) : null;
+        this.segments.push({ target, start, duration: stepDuration, to: resolveProps(step, i, target, this.targets), from });
+        start += stepDuration;
+      });
+      duration = Math.max(duration, start);
+    });
+    this.duration = duration;
+    this.paused = !!vars.paused;
+
+    // fromTo renders its start values straight away.
+    for (const segment of this.segments) {
+      if (segment.from) Object.entries(segment.from).forEach(([key, value]) => writeProperty(segment.target, key, value));
+    }
+    if (nested) return;
+    if (vars.overwrite) overwriteTweensOf(this);
+    active.add(this);
+    if (this.duration === 0 && !this.paused) this.render(0);
+  }
+
+  // Animated properties of one target, across all keyframes.
+  public propertiesOf(target: any): Set<string> {
+    const keys = new Set<string>();
+    this.segments.forEach(segment => segment.target === target && Object.keys(segment.to).forEach(key => keys.add(key)));
+    return keys;
+  }
+
+  public render(time: number) {
+    if (this.killed) return;
+    this.time = time;
+    for (const segment of this.segments) {
+      if (time < segment.start) continue;
+      if (!segment.from) {
+        segment.from = {};
+        for (const key of Object.keys(segment.to)) segment.from[key] = readProperty(segment.target, key);
+      }
+      const progress = segment.duration > 0 ? Math.min(1, (time - segment.start) / segment.duration) : 1;
+      for (const [key, end] of Object.entries(segment.to)) {
+        const start = segment.from[key];
+        if (typeof end === 'number' && typeof start === 'number') writeProperty(segment.target, key, start + (end - start) * progress);
+        else if (progress >= 1) writeProperty(segment.target, key, end);
+      }
+    }
+    this.vars.onUpdate?.();
+    if (!this.completed && time >= this.duration) {
+      this.completed = true;
+      this.vars.onComplete?.();
+    }
+  }
+
+  public advance(dt: number) {
+    if (this.paused || this.killed || this.completed) return;
+    this.render(Math.min(this.time + dt, this.duration));
+  }
+
+  public isDone() {
+    return this.killed || this.completed;
+  }
+
+  public isActive() {
+    return !this.paused && !this.isDone();
+  }
+
+  public kill() {
+    this.killed = true;
+    active.delete(this);
+    return this;
+  }
+
+  public pause() {
+    this.paused = true;
+    return this;
+  }
+
+  public resume() {
+    this.paused = false;
+    return this;
+  }
+
+  public progress() {
+    return this.duration ? this.time / this.duration : 1;
+  }
+}
+
+export class FakeTimeline implements Animation {
+  private children: { tween: FakeTween; position: number }[] = [];
+  private pauses: { position: number; callback?: () => void; reached: boolean }[] = [];
+  private time = 0;
+  private paused: boolean;
+  private killed = false;
+  private completed = false;
+
+  constructor(private vars: Vars = {}) {
+    this.paused = !!vars.paused;
+    active.add(this);
+  }
+
+  public get duration() {
+    return Math.max(0, ...this.children.map(({ tween, position }) => position + tween.duration), ...this.pauses.map(p => p.position));
+  }
+
+  public to(targets: any, vars: Vars, position = this.duration) {
+    this.children.push({ tween: new FakeTween(targets, vars, undefined, true), position });
+    return this;
+  }
+
+  public fromTo(targets: any, fromVars: Vars, toVars: Vars, position = this.duration) {
+    this.children.push({ tween: new FakeTween(targets, toVars, fromVars, true), position });
+    return this;
+  }
+
+  public addPause(position: number, callback?: () => void) {
+    this.pauses.push({ position, callback, reached: false });
+    return this;
+  }
+
+  private render(time: number) {
+    this.time = time;
+    for (const { tween, position } of this.children) {
+      if (time >= position) tween.render(time - position);
+    }
+    if (!this.completed && time >= this.duration) {
+      this.completed = true;
+      this.vars.onComplete?.();
+    }
+  }
+
+  public advance(dt: number) {
+    if (this.paused || this.killed || this.completed) return;
+    const next = Math.min(this.time + dt, this.duration);
+    const pause = this.pauses.find(p => !p.reached && p.position <= next);
+    if (pause) {
+      pause.reached = true;
+      this.paused = true;
+      this.render(pause.position);
+      pause.callback?.();
+      return;
+    }
+    this.render(next);
+  }
+
+  public isDone() {
+    return this.killed || this.completed;
+  }
+
+  public isActive() {
+    return !this.paused && !this.isDone();
+  }
+
+  public kill() {
+    this.killed = true;
+    active.delete(this);
+    return this;
+  }
+
+  public pause() {
+    this.paused = true;
+    return this;
+  }
+
+  public resume() {
+    this.paused = false;
+    return this;
+  }
+}
+
+// Kills other tweens animating any of the same properties on the same targets, like `overwrite: true`.
+function overwriteTweensOf(tween: FakeTween) {
+  for (const other of active) {
+    if (other === tween || !(other instanceof FakeTween)) continue;
+    const overlaps = tween.targets.some(target => {
+      const theirs = other.propertiesOf(target);
+      return [...tween.propertiesOf(target)].some(key => theirs.has(key));
+    });
+    if (overlaps) other.kill();
+  }
+}
+
+export const fakeGsap = {
+  to: (targets: any, vars: Vars) => new FakeTween(targets, vars),
+  fromTo: (targets: any, fromVars: Vars, toVars: Vars) => new FakeTween(targets, toVars, fromVars),
+  from: (targets: any, fromVars: Vars) => {
+    const list = toArray(targets);
+    // The destination is wherever the targets are now; functions resolve per target, so capture the first.
+    const toVars: Vars = { ...fromVars };
+    for (const key of Object.keys(resolveProps(fromVars, 0, list[0], list))) toVars[key] = list.length ? readProperty(list[0], key) : 0;
+    return new FakeTween(list, toVars, fromVars);
+  },
+  set: (targets: any, vars: Vars) => {
+    const list = toArray(targets);
+    list.forEach((target, i) => Object.entries(resolveProps(vars, i, target, list)).forEach(([key, value]) => writeProperty(target, key, value)));
+  },
+  getProperty: (target: any, key: string) => (target == null ? 0 : readProperty(target, key)),
+  killTweensOf: (targets: any) => {
+    const list = new Set(toArray(targets));
+    for (const animation of active) {
+      if (animation instanceof FakeTween && animation.targets.some(target => list.has(target))) animation.kill();
+    }
+  },
+  timeline: (vars?: Vars) => new FakeTimeline(vars),
+  parseEase: () => (progress: number) => progress,
+  ticker: {
+    add: (callback: (time: number) => void) => { tickerCallbacks.add(callback); },
+    remove: (callback: (time: number) => void) => { tickerCallbacks.delete(callback); },
+  },
+  utils: {
+    toArray,
+    clamp: (min: number, max: number, value: number) => Math.min(Math.max(value, min), max),
+  },
+};
+
+// Moves the clock forward in 60fps frames: tweens update first, then ticker callbacks, as in GSAP.
+export function advance(seconds: number, frame = 1 / 60) {
+  let remaining = seconds;
+  while (remaining > 1e-9) {
+    const dt = Math.min(frame, remaining);
+    remaining -= dt;
+    clock += dt;
+    for (const animation of [...active]) {
+      animation.advance(dt);
+      if (animation.isDone()) active.delete(animation);
+    }
+    tickerCallbacks.forEach(callback => callback(clock));
+  }
+}
+
+// Drops every running tween and ticker callback between tests.
+export function resetFakeGsap() {
+  active.clear();
+  tickerCallbacks.clear();
+  clock = 0;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TrackGeometry, getCardStart, getClosestVirtualIndex, getTargetOffset, getTrackAxis, getTrackPosition, orientVars,
+} from '../lib/geometry';
+
+// A 1000px stage with 300px cards and 10px margins: slide 0 is centered at x = 500 - 10 - 150.
+const geometry: TrackGeometry = { viewportSize: 1000, cardOffset: 10, cardSize: 300, pitch: 320, trackLength: 1600 };
+const COUNT = 5;
+
+describe('getTargetOffset', () => {
+  it('centers each card on the stage', () => {
+    expect(getCardStart(geometry, 2)).toBe(650);
+    expect(getTargetOffset(geometry, 0, COUNT, false)).toBe(340);
+    expect(getTargetOffset(geometry, 2, COUNT, false)).toBe(-300);
+  });
+
+  it('only accepts indices outside the slides when looping', () => {
+    expect(getTargetOffset(geometry, 5, COUNT, false)).toBe(0);
+    expect(getTargetOffset(geometry, -1, COUNT, false)).toBe(0);
+    expect(getTargetOffset(geometry, -1, COUNT, true)).toBe(660);
+    expect(getTargetOffset(geometry, 5, COUNT, true)).toBe(getTargetOffset(geometry, 0, COUNT, true) - geometry.trackLength);
+  });
+
+  it('is 0 without slides', () => {
+    expect(getTargetOffset(geometry, 0, 0, false)).toBe(0);
+  });
+});
+
+describe('getTrackPosition', () => {
+  it('inverts getTargetOffset', () => {
+    for (const index of [0, 1, 3, 4]) {
+      expect(getTrackPosition(geometry, getTargetOffset(geometry, index, COUNT, false), COUNT, false)).toBe(index);
+    }
+    expect(getTrackPosition(geometry, 340 - 160, COUNT, false)).toBe(0.5);
+  });
+
+  it('is 0 before the cards are measured', () => {
+    expect(getTrackPosition({ ...geometry, pitch: 0 }, 100, COUNT, false)).toBe(0);
+  });
+});
+
+describe('getClosestVirtualIndex', () => {
+  it('rounds to the nearest card', () => {
+    expect(getClosestVirtualIndex(geometry, 340 - 150, COUNT, false)).toBe(0);
+    expect(getClosestVirtualIndex(geometry, 340 - 170, COUNT, false)).toBe(1);
+  });
+
+  it('clamps to the real slides without looping', () => {
+    expect(getClosestVirtualIndex(geometry, 2000, COUNT, false)).toBe(0);
+    expect(getClosestVirtualIndex(geometry, -5000, COUNT, false)).toBe(4);
+  });
+
+  it('keeps counting laps when looping', () => {
+    expect(getClosestVirtualIndex(geometry, 340 + 320, COUNT, true)).toBe(-1);
+    expect(getClosestVirtualIndex(geometry, 340 - 320 * 7, COUNT, true)).toBe(7);
+  });
+});
+
+describe('orientVars', () => {
+  const vars = { x: 40, y: 10, rotation: 5, rotationY: 30, scale: 0.9, duration: 1 };
+
+  it('leaves a left-to-right track alone', () => {
+    expect(orientVars(vars, getTrackAxis('horizontal', 'ltr'))).toEqual(vars);
+  });
+
+  it('mirrors movement and turns along the track for right-to-left', () => {
+    expect(orientVars(vars, getTrackAxis('horizontal', 'rtl'))).toEqual({ x: -40, y: 10, rotation: -5, rotationY: -30, scale: 0.9, duration: 1 });
+  });
+
+  it('swaps the axes for a vertical track, whatever the direction', () => {
+    const vertical = { y: 40, x: 10, rotation: -5, rotationX: -30, scale: 0.9, duration: 1 };
+    expect(orientVars(vars, getTrackAxis('vertical', 'ltr'))).toEqual(vertical);
+    expect(orientVars(vars, getTrackAxis('vertical', 'rtl'))).toEqual(vertical);
+  });
+
+  it('wraps function-based values', () => {
+    const oriented = orientVars({ x: (i: number) => i * 10 }, getTrackAxis('horizontal', 'rtl'));
+    expect((oriented.x as (i: number, target: unknown) => number)(3, null)).toBe(-30);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { VelocityTracker, isTap, projectMomentum, resolveSwipeSteps, rubberBand } from '../lib/gestures';
+
+const release = { startIndex: 2, projectedIndex: 2, delta: 0, cardSize: 300, currentIndex: 2, count: 5, loop: true };
+
+describe('resolveSwipeSteps', () => {
+  it('stays put for a short slow drag', () => {
+    expect(resolveSwipeSteps({ ...release, delta: -59 })).toBe(0);
+    expect(resolveSwipeSteps({ ...release, delta: 59 })).toBe(0);
+  });
+
+  it('moves one slide once a slow drag passes a fifth of a card', () => {
+    expect(resolveSwipeSteps({ ...release, delta: -61 })).toBe(1);
+    expect(resolveSwipeSteps({ ...release, delta: 61 })).toBe(-1);
+  });
+
+  it('follows the projected throw', () => {
+    expect(resolveSwipeSteps({ ...release, projectedIndex: 6, delta: -40 })).toBe(4);
+    expect(resolveSwipeSteps({ ...release, projectedIndex: -1, delta: 40 })).toBe(-3);
+  });
+
+  it('measures from the lap the drag started on', () => {
+    expect(resolveSwipeSteps({ ...release, startIndex: 7, projectedIndex: 9, currentIndex: 2 })).toBe(2);
+  });
+
+  it('stops at the first and last card without looping', () => {
+    const bounded = { ...release, loop: false };
+    expect(resolveSwipeSteps({ ...bounded, projectedIndex: 6 })).toBe(2);
+    expect(resolveSwipeSteps({ ...bounded, projectedIndex: -1 })).toBe(-2);
+    expect(resolveSwipeSteps({ ...bounded, startIndex: 4, projectedIndex: 4, currentIndex: 4, delta: -100 })).toBe(0);
+  });
+});
+
+describe('VelocityTracker', () => {
+  it('measures px/ms over the recent samples', () => {
+    const tracker = new VelocityTracker();
+    tracker.reset(0, 0);
+    tracker.add(-50, 10);
+    tracker.add(-100, 20);
+    expect(tracker.getVelocity(20)).toBe(-5);
+  });
+
+  it('forgets samples older than the window', () => {
+    const tracker = new VelocityTracker();
+    tracker.reset(0, 0);
+    tracker.add(-200, 50);
+    tracker.add(-210, 200);
+    tracker.add(-220, 210);
+    expect(tracker.getVelocity(210)).toBe(-1);
+  });
+
+  it('reports no velocity when the pointer paused before release', () => {
+    const tracker = new VelocityTracker();
+    tracker.reset(0, 0);
+    tracker.add(-100, 20);
+    expect(tracker.getVelocity(200)).toBe(0);
+  });
+});
+
+describe('projectMomentum', () => {
+  it('keeps the direction of the throw and scales with strength', () => {
+    expect(projectMomentum(-1, 1)).toBe(-200);
+    expect(projectMomentum(1, 0.5)).toBe(100);
+    expect(projectMomentum(2, 1)).toBe(800);
+  });
+});
+
+describe('rubberBand', () => {
+  it('gives way less the further the track is pulled', () => {
+    const near = rubberBand(100, 1000, 0.5);
+    const far = rubberBand(400, 1000, 0.5);
+    expect(near).toBeLessThan(100);
+    expect(far - near).toBeLessThan(300);
+    expect(rubberBand(-100, 1000, 0.5)).toBe(-near);
+  });
+
+  it('passes the overflow through without resistance', () => {
+    expect(rubberBand(100, 1000, 0)).toBe(100);
+  });
+});
+
+describe('isTap', () => {
+  it('accepts short presses that barely move', () => {
+    expect(isTap(3, 4, 120)).toBe(true);
+    expect(isTap(6, 6, 120)).toBe(false);
+    expect(isTap(0, 0, 300)).toBe(false);
+  });
+});
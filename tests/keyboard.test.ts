@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getKeyboardAction } from '../lib/keyboard';
+import { getTrackAxis } from '../lib/geometry';
+
+describe('getKeyboardAction', () => {
+  it('steps with the left and right arrows by default', () => {
+    expect(getKeyboardAction('ArrowLeft', 2, 5)).toEqual({ type: 'PREV' });
+    expect(getKeyboardAction('ArrowRight', 2, 5)).toEqual({ type: 'NEXT' });
+    expect(getKeyboardAction('ArrowDown', 2, 5)).toBeNull();
+  });
+
+  it('mirrors the arrows for right-to-left', () => {
+    const axis = getTrackAxis('horizontal', 'rtl');
+    expect(getKeyboardAction('ArrowLeft', 2, 5, axis)).toEqual({ type: 'NEXT' });
+    expect(getKeyboardAction('ArrowRight', 2, 5, axis)).toEqual({ type: 'PREV' });
+  });
+
+  it('steps with the up and down arrows on a vertical track', () => {
+    const axis = getTrackAxis('vertical', 'rtl');
+    expect(getKeyboardAction('ArrowUp', 2, 5, axis)).toEqual({ type: 'PREV' });
+    expect(getKeyboardAction('ArrowDown', 2, 5, axis)).toEqual({ type: 'NEXT' });
+    expect(getKeyboardAction('ArrowLeft', 2, 5, axis)).toBeNull();
+  });
+
+  it('pages and jumps to the ends without wrapping', () => {
+    expect(getKeyboardAction('PageDown', 2, 5)).toEqual({ type: 'GOTO', payload: 4 });
+    expect(getKeyboardAction('PageUp', 2, 5)).toEqual({ type: 'GOTO', payload: 0 });
+    expect(getKeyboardAction('End', 2, 5)).toEqual({ type: 'GOTO', payload: 4 });
+  });
+});
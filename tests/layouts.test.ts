@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getLayout, mixTransforms } from '../lib/layouts';
+import { defaultConfig } from '../constants';
+
+const arc = getLayout('arc');
+const at = (norm: number) => arc.getTransform({ norm, distance: norm * 1000, viewportSize: 1000, viewportWidth: 1000, config: defaultConfig });
+
+describe('arc layout', () => {
+  it('leaves the centered card upright', () => {
+    expect(at(0)).toMatchObject({ y: 0, rotation: 0, scale: 1, originY: 100 });
+  });
+
+  it('drops and tilts cards away from the center symmetrically', () => {
+    const left = at(-0.5);
+    const right = at(0.5);
+    expect(right.y).toBe(defaultConfig.arcStrength * 0.25);
+    expect(left.y).toBe(right.y);
+    expect(right.rotation).toBe(defaultConfig.arcRotation * 0.5);
+    expect(left.rotation).toBe(-right.rotation);
+    expect(right.scale).toBeCloseTo(0.925);
+  });
+
+  it('curves more steeply towards the edges', () => {
+    expect(at(1).y - at(0.5).y).toBeGreaterThan(at(0.5).y - at(0).y);
+  });
+});
+
+describe('mixTransforms', () => {
+  it('blends from one layout into another', () => {
+    const linear = getLayout('linear').getTransform({ norm: 1, distance: 1000, viewportSize: 1000, viewportWidth: 1000, config: defaultConfig });
+    const halfway = mixTransforms(linear, at(1), 0.5);
+    expect(halfway.y).toBe(defaultConfig.arcStrength / 2);
+    expect(halfway.rotation).toBe(defaultConfig.arcRotation / 2);
+  });
+});
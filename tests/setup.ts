@@ -0,0 +1,76 @@
+import { afterEach, vi } from 'vitest';
+import { resetFakeGsap } from './fakeGsap';
+
+// jsdom has no layout: every card is 300 x 200 on a 1000 x 600 stage, so card `i` is centered at x = 350 - 300 * i,
+// or y = 200 - 200 * i on a vertical track.
+export const STAGE_WIDTH = 1000;
+export const STAGE_HEIGHT = 600;
+export const CARD_WIDTH = 300;
+export const CARD_HEIGHT = 200;
+
+vi.mock('gsap', async () => {
+  const { fakeGsap } = await import('./fakeGsap');
+  return { gsap: fakeGsap, default: fakeGsap };
+});
+declare global {
+  // Tells React that updates in tests are wrapped in act().
+  var IS_REACT_ACT_ENVIRONMENT: boolean | undefined;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+// Server rendering tests run in Node, without any DOM to stub.
+if (typeof window !== 'undefined') {
+  Object.defineProperty(HTMLElement.prototype, 'offsetWidth', {
+    configurable: true,
+    get(this: HTMLElement) {
+      return this.classList.contains('carousel-card') ? CARD_WIDTH : STAGE_WIDTH;
+    },
+  });
+  Object.defineProperty(HTMLElement.prototype, 'offsetHeight', {
+    configurable: true,
+    get(this: HTMLElement) {
+      return this.classList.contains('carousel-card') ? CARD_HEIGHT : STAGE_HEIGHT;
+    },
+  });
+
+  // Browser APIs jsdom leaves out.
+  window.ResizeObserver ??= class implements ResizeObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+
+  window.matchMedia ??= (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener() {},
+    removeEventListener() {},
+    addListener() {},
+    removeListener() {},
+    dispatchEvent: () => false,
+  });
+
+  HTMLImageElement.prototype.decode ??= () => Promise.resolve();
+  Element.prototype.setPointerCapture ??= () => {};
+  Element.prototype.releasePointerCapture ??= () => {};
+  Element.prototype.hasPointerCapture ??= () => false;
+
+  if (typeof window.PointerEvent === 'undefined') {
+    class PointerEvent extends MouseEvent {
+      public readonly pointerId: number;
+      public readonly pointerType: string;
+
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 1;
+        this.pointerType = init.pointerType ?? 'mouse';
+      }
+    }
+    window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+  }
+}
+
+afterEach(() => {
+  resetFakeGsap();
+});
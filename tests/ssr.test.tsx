@@ -0,0 +1,27 @@
+// @vitest-environment node
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { LagSlideshow } from '../components/LagSlideshow';
+import { images } from '../constants';
+
+describe('LagSlideshow on the server', () => {
+  it('renders without browser globals', () => {
+    expect(typeof window).toBe('undefined');
+    const cropped = {
+      ...images[0],
+      sources: [{ url: 'https://cdn.example.com/a-800.webp', width: 800, type: 'image/webp' }],
+      crops: [{ media: '(max-width: 600px)', sources: [{ url: 'https://cdn.example.com/a-400.jpg', width: 400 }] }],
+    };
+    const html = renderToString(
+      <LagSlideshow items={[cropped, ...images.slice(1)]} history lightbox thumbnails config={{ autoplay: true }} />
+    );
+    expect(html).toContain(images[0].title);
+    expect(html).toContain('aria-roledescription="carousel"');
+  });
+
+  it('starts on defaultIndex, leaving deep links to the browser', () => {
+    const html = renderToString(<LagSlideshow items={images} history defaultIndex={2} />);
+    expect(html).toContain(`>${images[2].title}<`);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getMountedIndices, getPagerDots, getWindowStart } from '../lib/virtualization';
+
+describe('getMountedIndices', () => {
+  it('mounts every slide when the window covers them all', () => {
+    expect(getMountedIndices([0], 2, 5, false)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('wraps around the ends only when looping', () => {
+    expect(getMountedIndices([0], 1, 20, true)).toEqual([0, 1, 19]);
+    expect(getMountedIndices([0], 1, 20, false)).toEqual([0, 1]);
+  });
+
+  it('merges the windows around several anchors', () => {
+    expect(getMountedIndices([2, 3, 10], 1, 20, false)).toEqual([1, 2, 3, 4, 9, 10, 11]);
+  });
+
+  it('only returns whole slide indices for a fractional radius', () => {
+    expect(getMountedIndices([5], 1.5, 20, false)).toEqual([4, 5, 6]);
+    expect(getMountedIndices([5], -2, 20, false)).toEqual([5]);
+  });
+});
+
+describe('getWindowStart', () => {
+  it('centers the window and slides it inwards at the ends', () => {
+    expect(getWindowStart(50, 100, 5)).toBe(48);
+    expect(getWindowStart(1, 100, 5)).toBe(0);
+    expect(getWindowStart(99, 100, 5)).toBe(95);
+    expect(getWindowStart(2, 3, 5)).toBe(0);
+  });
+});
+
+describe('getPagerDots', () => {
+  it('shows one full dot per slide when they fit', () => {
+    expect(getPagerDots(1, 3, 5).map(dot => dot.size)).toEqual(['full', 'full', 'full']);
+  });
+
+  it('shrinks the dots at an edge with more slides beyond it', () => {
+    expect(getPagerDots(0, 20, 7).map(dot => dot.size)).toEqual(['full', 'full', 'full', 'full', 'full', 'small', 'tiny']);
+    const middle = getPagerDots(10, 20, 7);
+    expect(middle.map(dot => dot.index)).toEqual([7, 8, 9, 10, 11, 12, 13]);
+    expect(middle.map(dot => dot.size)).toEqual(['tiny', 'small', 'full', 'full', 'full', 'small', 'tiny']);
+  });
+});
@@ -0,0 +1,143 @@
+import type { ReactNode } from 'react';
+
+// One encoded rendition of an image.
+export interface ImageSource {
+  url: string;
+  // Intrinsic width in pixels, used for the srcset `w` descriptor.
+  width: number;
+  // MIME type such as 'image/avif' or 'image/webp'; omitted for the baseline format.
+  type?: string;
+}
+
+// Point of interest kept in frame when the image is cropped, as fractions of width and height.
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// Art-directed alternative used while `media` matches, e.g. a portrait crop for phones.
+export interface ImageCrop {
+  media: string;
+  sources: ImageSource[];
+  focalPoint?: FocalPoint;
+}
+
+export interface SlideCta {
+  label: string;
+  href: string;
+}
+
+// Fields every slide shares; `title` and `author` feed the header and the live region.
+interface SlideBase {
+  id: number;
+  title: string;
+  author?: string;
+  // Longer text shown under the header.
+  caption?: string;
+  cta?: SlideCta;
+}
+
+export interface ImageSlide extends SlideBase {
+  // Optional so plain image objects keep working.
+  kind?: 'image';
+  // Fallback rendition, used when no `sources` apply.
+  url: string;
+  // Tiny or inline image shown blurred while `url` loads.
+  placeholder?: string;
+  sources?: ImageSource[];
+  crops?: ImageCrop[];
+  focalPoint?: FocalPoint;
+}
+
+// Plays muted while centered and pauses once it leaves the center.
+export interface VideoSlide extends SlideBase {
+  kind: 'video';
+  url: string;
+  // Shown before playback and used for the blurred background.
+  poster?: string;
+  // Defaults to true.
+  loop?: boolean;
+}
+
+// Arbitrary React content on the card.
+export interface CustomSlide extends SlideBase {
+  kind: 'custom';
+  content: ReactNode;
+  // Image for the blurred background; none when omitted.
+  background?: string;
+}
+
+export type Slide = ImageSlide | VideoSlide | CustomSlide;
+
+// Kept for code written before slides could be videos or custom content.
+export type CarouselImage = ImageSlide;
+
+export type LayoutName = 'linear' | 'arc' | 'coverflow' | 'cylinder' | 'stack';
+
+export type Orientation = 'horizontal' | 'vertical';
+
+export type ReadingDirection = 'ltr' | 'rtl';
+
+export interface AnimationConfig {
+  stagger: number;
+  layout: LayoutName;
+  // Axis the slides run along; 'vertical' suits sidebars and story-style feeds.
+  orientation: Orientation;
+  // 'rtl' puts later slides to the left and mirrors swipes, arrows and keys. Vertical tracks always run top to bottom.
+  direction: ReadingDirection;
+  arcStrength: number;
+  arcRotation: number;
+  // Degrees a coverflow card turns once it leaves the center.
+  coverflowAngle: number;
+  // How far (px) turned coverflow cards sink back.
+  coverflowDepth: number;
+  // Degrees of drum rotation per viewport width of travel.
+  cylinderAngle: number;
+  loop: boolean;
+  // Multiplier for how far a flick carries the track; 0 disables momentum.
+  momentum: number;
+  // 0..1, how strongly the track resists dragging past the first or last card when not looping.
+  edgeResistance: number;
+  autoplay: boolean;
+  // Seconds between automatic advances.
+  autoplayInterval: number;
+  autoplayDirection: 'forward' | 'backward';
+  pauseOnHover: boolean;
+  pauseOnFocus: boolean;
+  // 'auto' follows prefers-reduced-motion; 'full' or 'reduced' force a profile.
+  motion: 'auto' | 'full' | 'reduced';
+  // Seconds and GSAP ease of a track move under full motion.
+  duration: number;
+  ease: string;
+  // Slide count above which only a window of cards around the current one is mounted.
+  virtualizeThreshold: number;
+  // Cards mounted on either side of the current and centered slide when virtualized.
+  virtualWindow: number;
+  // Slides on either side of the current one whose images are preloaded.
+  preloadRadius: number;
+  // Name of a registered transition preset (see lib/transitions.ts).
+  transition: string;
+  // Tuned preset parameters, keyed by preset name then parameter key.
+  transitionParams: Record<string, Record<string, number>>;
+}
+
+// FSM State and Actions
+export interface CarouselState {
+  count: number;
+  currentIndex: number;
+  fromIndex: number;
+  status: 'idle' | 'animating';
+  // Signed slides travelled by the current transition; 0 means take the shortest way.
+  steps: number;
+}
+
+export type CarouselAction =
+  | { type: 'NEXT' }
+  | { type: 'PREV' }
+  | { type: 'GOTO'; payload: number }
+  | { type: 'STEP'; payload: number }
+  | { type: 'ANIMATION_END' }
+  | { type: 'INTERRUPT'; payload: number }
+  // Moves to a slide without a transition, e.g. the deep-linked slide adopted after mount.
+  | { type: 'JUMP'; payload: number }
+  | { type: 'SET_COUNT'; payload: number };
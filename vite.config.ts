@@ -1,16 +1,20 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode lib` packages the slideshow for npm; every other mode builds the demo.
+    const isLibrary = mode === 'lib';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
+      plugins: [react(), tailwindcss()],
+      define: isLibrary ? {} : {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
@@ -18,6 +22,24 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: isLibrary ? {
+        outDir: 'dist/lib',
+        copyPublicDir: false,
+        lib: {
+          entry: path.resolve(__dirname, 'library.ts'),
+          formats: ['es'],
+          fileName: 'lag-slideshow',
+          cssFileName: 'lag-slideshow',
+        },
+        rollupOptions: {
+          // Peer dependencies stay imports so the host app shares one copy.
+          external: ['react', 'react-dom', 'react/jsx-runtime', 'gsap'],
+        },
+      } : undefined,
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./tests/setup.ts'],
       }
     };
 });